@@ -51,6 +51,13 @@ import RecordingPermissionGuide from './components/RecordingPermissionGuide';
 import {useTranslation} from 'react-i18next';
 import {logger} from './utils/logger';
 import TopBar from "./components/TopBar.tsx";
+import CursorLagOverlay from './components/CursorLagOverlay';
+import MetronomeTrack from './components/MetronomeTrack';
+import {TempoSuggestionPrompt} from './components/TempoSuggestionPrompt';
+import {LoopNoticeSnackbar} from './components/LoopNoticeSnackbar';
+import ExportMixDialog from './components/ExportMixDialog';
+import AutoAlignDialog from './components/AutoAlignDialog';
+import RoutinesDialog from './components/RoutinesDialog';
 
 // Declarations for version info (defined by Vite, may be used later)
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -80,6 +87,7 @@ function App() {
         removeAllTracks,
         reorderTracks,
         playbackState,
+        showCursorLagOverlay,
     } = useAudioStore();
 
     // DND Kit sensors
@@ -168,6 +176,9 @@ function App() {
     const [themeDialogOpen, setThemeDialogOpen] = useState(false);
     const [deleteAllDialogOpen, setDeleteAllDialogOpen] = useState(false);
     const [piecesManagerOpen, setPiecesManagerOpen] = useState(false);
+    const [exportMixOpen, setExportMixOpen] = useState(false);
+    const [autoAlignOpen, setAutoAlignOpen] = useState(false);
+    const [routinesOpen, setRoutinesOpen] = useState(false);
     const [recordingGuideOpen, setRecordingGuideOpen] = useState(false);
     const [showEditModeAlert, setShowEditModeAlert] = useState(() => {
         return localStorage.getItem('hideEditModeAlert') !== 'true';
@@ -426,6 +437,8 @@ function App() {
         <ThemeProvider theme={theme}>
             <CssBaseline/>
             <PWAUpdatePrompt/>
+            <TempoSuggestionPrompt/>
+            <LoopNoticeSnackbar/>
             <Box sx={{display: 'flex', flexDirection: 'column', minHeight: '100vh'}}>
                 {/* Top App Bar */}
                 <TopBar
@@ -452,6 +465,9 @@ function App() {
                     onOpenSettings={() => setSettingsModalOpen(true)}
                     onOpenDeleteAllDialog={() => setDeleteAllDialogOpen(true)}
                     onOpenPiecesManager={() => setPiecesManagerOpen(true)}
+                    onOpenExportMix={() => setExportMixOpen(true)}
+                    onOpenAutoAlign={() => setAutoAlignOpen(true)}
+                    onOpenRoutines={() => setRoutinesOpen(true)}
                 />
 
 
@@ -459,6 +475,9 @@ function App() {
                 <HelpModal open={helpModalOpen} onClose={() => setHelpModalOpen(false)}/>
                 <SettingsUI open={settingsModalOpen} onClose={() => setSettingsModalOpen(false)}/>
                 <PiecesManager open={piecesManagerOpen} onClose={() => setPiecesManagerOpen(false)} />
+                <ExportMixDialog open={exportMixOpen} onClose={() => setExportMixOpen(false)} />
+                <AutoAlignDialog open={autoAlignOpen} onClose={() => setAutoAlignOpen(false)} />
+                <RoutinesDialog open={routinesOpen} onClose={() => setRoutinesOpen(false)} />
                 <RecordingPermissionGuide 
                     open={recordingGuideOpen} 
                     onClose={() => setRecordingGuideOpen(false)} 
@@ -629,6 +648,9 @@ function App() {
                                     ))}
                                 </SortableContext>
                             </DndContext>
+
+                            {/* Metronome (virtual mixer track) */}
+                            <MetronomeTrack/>
                             
                             {/* Track adder */}
                             <Box sx={{ mt: 2 }}>
@@ -646,6 +668,9 @@ function App() {
 
                 {/* Bottom control bar */}
                 <BottomControlBar/>
+
+                {/* Sync debug overlay */}
+                {showCursorLagOverlay && <CursorLagOverlay/>}
             </Box>
         </ThemeProvider>
     );
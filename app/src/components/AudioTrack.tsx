@@ -15,6 +15,7 @@ import {
   Tooltip,
   Typography,
   Chip,
+  Collapse,
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import DeleteIcon from '@mui/icons-material/Delete';
@@ -26,11 +27,17 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
 import MicIcon from '@mui/icons-material/Mic';
 import DownloadIcon from '@mui/icons-material/Download';
+import EqualizerIcon from '@mui/icons-material/Equalizer';
+import ContentCutIcon from '@mui/icons-material/ContentCut';
 import {useTranslation} from 'react-i18next';
 import {useAudioStore} from '../hooks/useAudioStore';
 import {useThrottle} from '../hooks/useThrottle';
 import WaveformDisplay from './WaveformDisplay';
 import RecordableWaveform from './RecordableWaveform';
+import PanKnob from './PanKnob';
+import TrackEQPanel from './TrackEQPanel';
+import TrackTrimPanel from './TrackTrimPanel';
+import TimeOffsetControl from './TimeOffsetControl';
 import type {AudioTrack as AudioTrackType} from '../types/audio';
 import {useSortable} from '@dnd-kit/sortable';
 import {CSS} from '@dnd-kit/utilities';
@@ -43,6 +50,7 @@ const AudioTrack = ({ track }: AudioTrackProps) => {
   const { t } = useTranslation();
   const {
     setVolume,
+    setPan,
     toggleMute,
     toggleSolo,
     exclusiveSolo,
@@ -93,8 +101,17 @@ const AudioTrack = ({ track }: AudioTrackProps) => {
     setVolume(id, volume);
   }, 50);
 
+  // Throttled pan update, same rate as volume
+  const throttledSetPan = useThrottle((id: string, pan: number) => {
+    setPan(id, pan);
+  }, 50);
+
   const localVolume = isDraggingVolume ? dragVolume : track.volume * 100;
 
+  // EQ and trim sections expanded (UI only, not persisted)
+  const [isEQOpen, setIsEQOpen] = useState(false);
+  const [isTrimOpen, setIsTrimOpen] = useState(false);
+
   // Ref for waveform container (for overlay positioning)
   const waveformContainerRef = useRef<HTMLDivElement>(null);
   // Delete confirmation dialog
@@ -352,6 +369,11 @@ const AudioTrack = ({ track }: AudioTrackProps) => {
           )}
           
           <Box sx={{ flexGrow: 1 }} />
+
+          {/* Time offset (nudge) - only once there is audio to align */}
+          {track.file && (
+            <TimeOffsetControl trackId={track.id} timeOffset={track.timeOffset} />
+          )}
           
           <IconButton 
             size="small" 
@@ -438,6 +460,47 @@ const AudioTrack = ({ track }: AudioTrackProps) => {
             />
           </Box>
 
+          {/* Pan knob */}
+          <PanKnob
+            value={track.pan}
+            color={track.color}
+            disabled={track.isMuted}
+            onChange={(pan) => throttledSetPan(track.id, pan)}
+            onChangeCommitted={(pan) => setPan(track.id, pan)}
+          />
+
+          {/* EQ section toggle - highlighted while the EQ is active */}
+          <Tooltip title={t('eq.title')}>
+            <IconButton
+              size="small"
+              onClick={() => setIsEQOpen(!isEQOpen)}
+              sx={{
+                color: track.eq?.enabled ? track.color : 'inherit',
+                bgcolor: isEQOpen ? 'action.selected' : 'transparent',
+              }}
+              aria-expanded={isEQOpen}
+            >
+              <EqualizerIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+
+          {/* Trim section toggle - highlighted while the track is trimmed or faded */}
+          {track.file && (
+            <Tooltip title={t('trim.title')}>
+              <IconButton
+                size="small"
+                onClick={() => setIsTrimOpen(!isTrimOpen)}
+                sx={{
+                  color: track.trimStart > 0 || track.trimEnd > 0 || track.fadeIn || track.fadeOut ? track.color : 'inherit',
+                  bgcolor: isTrimOpen ? 'action.selected' : 'transparent',
+                }}
+                aria-expanded={isTrimOpen}
+              >
+                <ContentCutIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+
           {/* REC Button (recordable tracks only) */}
           {track.isRecordable && (
             <>
@@ -521,6 +584,14 @@ const AudioTrack = ({ track }: AudioTrackProps) => {
             </>
           )}
         </Stack>
+
+        {/* EQ and filters */}
+        <Collapse in={isEQOpen} unmountOnExit>
+          <TrackEQPanel track={track} />
+        </Collapse>
+        <Collapse in={isTrimOpen && !!track.file} unmountOnExit>
+          <TrackTrimPanel track={track} />
+        </Collapse>
         </Box>
       </Box>
       )}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { analyzeAlignment, MIN_ALIGNMENT_CONFIDENCE, type AlignmentResult } from '../hooks/audioStore/alignment';
+
+interface AutoAlignDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Line every track up with a reference track (e.g. the full mix) by cross-correlation
+ * Offsets found with enough confidence are listed, and applied once the user confirms
+ */
+const AutoAlignDialog = ({ open, onClose }: AutoAlignDialogProps) => {
+  const { t } = useTranslation();
+  const tracks = useAudioStore(state => state.tracks);
+  const setTrackOffset = useAudioStore(state => state.setTrackOffset);
+
+  const loadedTracks = tracks.filter(track => track.file);
+  const [referenceId, setReferenceId] = useState<string>('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<AlignmentResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Running analysis, aborted on cancel or close
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isAnalyzing = progress !== null;
+  // Default to the first loaded track until the user picks one
+  const reference = loadedTracks.find(track => track.id === referenceId) ?? loadedTracks[0];
+
+  // Stop the worker if the dialog goes away mid-analysis
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    setResults(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleAlign = async () => {
+    if (!reference) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setResults(null);
+    setProgress(0);
+    try {
+      const alignment = await analyzeAlignment(
+        reference.id,
+        loadedTracks.map(track => track.id),
+        setProgress,
+        controller.signal
+      );
+      setResults(alignment);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to align tracks:', err);
+        setError(t('autoAlign.error'));
+      }
+    }
+    if (abortRef.current === controller) abortRef.current = null;
+    setProgress(null);
+  };
+
+  const isApplicable = ({ offset, confidence }: AlignmentResult) =>
+    offset !== null && confidence >= MIN_ALIGNMENT_CONFIDENCE;
+
+  const handleApply = () => {
+    results?.forEach((result) => {
+      if (result.offset !== null && isApplicable(result)) {
+        setTrackOffset(result.trackId, result.offset);
+      }
+    });
+    handleClose();
+  };
+
+  const trackName = (trackId: string) => tracks.find(track => track.id === trackId)?.name ?? trackId;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('autoAlign.title')}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>{t('autoAlign.description')}</DialogContentText>
+
+        <FormControl fullWidth size="small" sx={{ mt: 2 }} disabled={isAnalyzing}>
+          <InputLabel id="auto-align-reference">{t('autoAlign.reference')}</InputLabel>
+          <Select
+            labelId="auto-align-reference"
+            label={t('autoAlign.reference')}
+            value={reference?.id ?? ''}
+            onChange={(e) => {
+              setReferenceId(e.target.value);
+              setResults(null);
+            }}
+          >
+            {loadedTracks.map(track => (
+              <MenuItem key={track.id} value={track.id}>{track.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {isAnalyzing && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress variant="determinate" value={progress * 100} />
+          </Box>
+        )}
+
+        {results && (
+          <List dense sx={{ mt: 1 }}>
+            {results.map((result) => {
+              const { trackId, offset, confidence } = result;
+              const applied = offset !== null && isApplicable(result);
+              return (
+                <ListItem key={trackId} disableGutters>
+                  <ListItemText
+                    primary={trackName(trackId)}
+                    secondary={applied
+                      ? t('autoAlign.applied', { offset: Math.round(offset * 1000), confidence: Math.round(confidence * 100) })
+                      : t('autoAlign.skipped', { confidence: Math.round(confidence * 100) })}
+                    slotProps={{ secondary: { color: applied ? 'text.secondary' : 'warning.main' } }}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>
+          {t('autoAlign.cancel')}
+        </Button>
+        {results ? (
+          <Button onClick={handleApply} variant="contained" disabled={!results.some(isApplicable)}>
+            {t('autoAlign.apply')}
+          </Button>
+        ) : (
+          <Button onClick={handleAlign} variant="contained" disabled={isAnalyzing || loadedTracks.length < 2}>
+            {isAnalyzing ? t('autoAlign.analyzing', { percent: Math.round(progress * 100) }) : t('autoAlign.align')}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutoAlignDialog;
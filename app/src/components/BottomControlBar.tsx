@@ -11,7 +11,9 @@ import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
 import {useAudioStore} from '../hooks/useAudioStore';
 import {usePlaybackTime} from '../hooks/usePlaybackTime';
 import {useThrottle} from '../hooks/useThrottle';
+import {useKeyboardShortcuts} from '../hooks/useKeyboardShortcuts';
 import PlaybackSpeedDrawer from './PlaybackSpeedDrawer';
+import OutputMeter from './OutputMeter';
 import {useTranslation} from 'react-i18next';
 
 const StyledFab = styled(Fab)({
@@ -51,10 +53,13 @@ const BottomControlBar = () => {
     play,
     pause,
     setPlaybackRate,
+    setPitch,
     tracks,
     masterVolume,
     setMasterVolume,
     seek,
+    quickLoop,
+    captureQuickLoopPoint,
   } = useAudioStore();
 
   const currentTime = usePlaybackTime(); // Use lightweight time tracker
@@ -77,142 +82,8 @@ const BottomControlBar = () => {
     setTempMasterVolume(masterVolume);
   }, [masterVolume]);
 
-  useEffect(() => {
-    const seekIntervalRef = { current: null as number | null };
-    const holdTimeoutRef = { current: null as number | null };
-    const keyPressTimeRef = { current: null as number | null };
-    const isInContinuousModeRef = { current: false };
-    const currentDirectionRef = { current: 0 };
-    const continuousStartTimeRef = { current: null as number | null };
-
-    const HOLD_THRESHOLD = 300; // ms avant de commencer le défilement continu
-    const SEEK_INTERVAL = 50; // ms entre chaque seek en mode continu
-    const SINGLE_PRESS_SEEK = 5; // secondes pour un appui simple
-    const CONTINUOUS_SEEK_BASE = 0.5; // secondes par interval en mode continu (vitesse de base)
-    const MAX_ACCELERATION = 5; // multiplier max (5x la vitesse de base)
-    const ACCELERATION_DURATION = 3000; // ms pour atteindre la vitesse max
-
-    const getAcceleratedSeekAmount = () => {
-      if (continuousStartTimeRef.current === null) return CONTINUOUS_SEEK_BASE;
-
-      const elapsed = Date.now() - continuousStartTimeRef.current;
-      // Accélération progressive linéaire de 1x à 5x sur ACCELERATION_DURATION ms
-      const progress = Math.min(elapsed / ACCELERATION_DURATION, 1);
-      const multiplier = 1 + (progress * (MAX_ACCELERATION - 1));
-      return CONTINUOUS_SEEK_BASE * multiplier;
-    };
-
-    const startContinuousSeek = (direction: number) => {
-      if (seekIntervalRef.current !== null) return;
-
-      isInContinuousModeRef.current = true;
-      continuousStartTimeRef.current = Date.now();
-
-      seekIntervalRef.current = window.setInterval(() => {
-        const currentTime = useAudioStore.getState().playbackState.currentTime;
-        const duration = useAudioStore.getState().playbackState.duration;
-        const seekAmount = getAcceleratedSeekAmount();
-        const newTime = Math.max(0, Math.min(
-          currentTime + (direction * seekAmount),
-          duration
-        ));
-        seek(newTime);
-      }, SEEK_INTERVAL);
-    };
-
-    const stopContinuousSeek = () => {
-      if (seekIntervalRef.current !== null) {
-        clearInterval(seekIntervalRef.current);
-        seekIntervalRef.current = null;
-      }
-      if (holdTimeoutRef.current !== null) {
-        clearTimeout(holdTimeoutRef.current);
-        holdTimeoutRef.current = null;
-      }
-      continuousStartTimeRef.current = null;
-    };
-
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ignore si on est dans un input ou textarea
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
-        return;
-      }
-
-      if (e.code === 'Space') {
-        e.preventDefault();
-        e.stopPropagation();
-
-        if (playbackState.isPlaying) {
-          pause();
-        } else {
-          play();
-        }
-
-        // Remove focus from any button
-        if (document.activeElement instanceof HTMLElement) {
-          document.activeElement.blur();
-        }
-      } else if (e.code === 'ArrowLeft' || e.code === 'ArrowRight') {
-        e.preventDefault();
-        e.stopPropagation();
-
-        // Ctrl+Left : retour au début
-        if (e.ctrlKey && e.code === 'ArrowLeft') {
-          seek(0);
-          return;
-        }
-
-        const direction = e.code === 'ArrowLeft' ? -1 : 1;
-
-        // Si c'est la première pression (pas de repeat)
-        if (!e.repeat) {
-          keyPressTimeRef.current = Date.now();
-          currentDirectionRef.current = direction;
-          isInContinuousModeRef.current = false;
-
-          // Démarrer un timeout pour passer en mode continu
-          holdTimeoutRef.current = window.setTimeout(() => {
-            startContinuousSeek(direction);
-          }, HOLD_THRESHOLD);
-        }
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === 'ArrowLeft' || e.code === 'ArrowRight') {
-        e.preventDefault();
-        e.stopPropagation();
-
-        // Arrêter le défilement continu
-        stopContinuousSeek();
-
-        // Si c'était un appui court (pas en mode continu)
-        if (keyPressTimeRef.current !== null && !isInContinuousModeRef.current) {
-          const currentTime = useAudioStore.getState().playbackState.currentTime;
-          const duration = useAudioStore.getState().playbackState.duration;
-          const newTime = Math.max(0, Math.min(
-            currentTime + (currentDirectionRef.current * SINGLE_PRESS_SEEK),
-            duration
-          ));
-          seek(newTime);
-        }
-
-        keyPressTimeRef.current = null;
-        isInContinuousModeRef.current = false;
-        currentDirectionRef.current = 0;
-      }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    document.addEventListener('keyup', handleKeyUp);
-
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-      document.removeEventListener('keyup', handleKeyUp);
-      stopContinuousSeek();
-    };
-  }, [playbackState.isPlaying, play, pause, seek]);
+  // Keyboard shortcuts (key map editable in the settings)
+  useKeyboardShortcuts();
 
   // Handler for quick rewind/forward buttons (5 seconds jump)
   // const handleQuickSeek = (direction: -1 | 1) => {
@@ -447,6 +318,30 @@ const BottomControlBar = () => {
           >
             <FastForwardIcon />
           </IconButton>
+          {/* A/B loop capture: A, then B, then clear */}
+          <Tooltip
+            title={
+              quickLoop?.loopId
+                ? t('controls.quickLoopClear')
+                : quickLoop
+                ? t('controls.quickLoopSetB')
+                : t('controls.quickLoopSetA')
+            }
+          >
+            <span>
+              <Button
+                size="small"
+                variant={quickLoop?.loopId ? 'contained' : 'outlined'}
+                color={quickLoop && !quickLoop.loopId ? 'warning' : 'primary'}
+                onClick={captureQuickLoopPoint}
+                disabled={!hasLoadedTracks || isRecording}
+                aria-label={t('controls.quickLoop')}
+                sx={{ minWidth: 44, px: 1, py: 0.25, fontWeight: 600 }}
+              >
+                {quickLoop?.loopId ? 'A–B' : quickLoop ? 'B' : 'A'}
+              </Button>
+            </span>
+          </Tooltip>
           <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: { xs: 'auto', sm: 120 } }}>
             <Typography variant="body2">
               {formatTime(currentTime)}
@@ -495,6 +390,7 @@ const BottomControlBar = () => {
             sx={{ flex: 1 }}
             aria-label={t('controls.masterVolume')}
           />
+          <OutputMeter />
         </Stack>
 
         {/* Mobile version (xs to sm) - just icon button */}
@@ -545,6 +441,9 @@ const BottomControlBar = () => {
                 sx={{ flex: 1 }}
               />
             </Stack>
+            <Box sx={{ mt: 1 }}>
+              <OutputMeter />
+            </Box>
           </Box>
         </Popover>
 
@@ -559,6 +458,7 @@ const BottomControlBar = () => {
           sx={{ minWidth: 100, textTransform: 'none' }}
         >
           {playbackState.playbackRate.toFixed(2)}x
+          {playbackState.pitchSemitones !== 0 && ` ${playbackState.pitchSemitones > 0 ? '+' : ''}${playbackState.pitchSemitones}`}
         </Button>
       </Toolbar>
 
@@ -566,8 +466,11 @@ const BottomControlBar = () => {
       <PlaybackSpeedDrawer
         open={speedDrawerOpen}
         currentRate={playbackState.playbackRate}
+        pitchSemitones={playbackState.pitchSemitones}
+        pitchCents={playbackState.pitchCents}
         onClose={() => setSpeedDrawerOpen(false)}
         onRateChange={setPlaybackRate}
+        onPitchChange={setPitch}
       />
     </AppBar>
   );
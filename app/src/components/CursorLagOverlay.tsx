@@ -0,0 +1,69 @@
+import { Box, IconButton, Typography } from '@mui/material';
+import { Close } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { useCursorLagStats } from '../hooks/useCursorLagStats';
+
+/**
+ * Debug overlay showing how far every waveform cursor is from the engine clock
+ * Meant to check cursor lag on slow devices (the audio itself shares one clock), enabled from the interface settings
+ */
+const CursorLagOverlay = () => {
+  const { t } = useTranslation();
+  const tracks = useAudioStore(state => state.tracks);
+  const cursorLagThreshold = useAudioStore(state => state.cursorLagThreshold);
+  const setShowCursorLagOverlay = useAudioStore(state => state.setShowCursorLagOverlay);
+  const stats = useCursorLagStats();
+
+  return (
+    <Box
+      sx={{
+        position: 'fixed',
+        top: 72,
+        right: 8,
+        zIndex: 1500,
+        minWidth: 200,
+        p: 1,
+        borderRadius: 1,
+        bgcolor: 'rgba(0, 0, 0, 0.75)',
+        color: '#fff',
+        fontFamily: 'monospace',
+        pointerEvents: 'auto',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="caption" fontWeight={600}>
+          {t('cursorLag.title')}
+        </Typography>
+        <IconButton size="small" onClick={() => setShowCursorLagOverlay(false)} sx={{ color: 'inherit' }}>
+          <Close fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Typography variant="caption" component="div">
+        {t('cursorLag.reference')}: {stats.referenceTime.toFixed(3)}s
+      </Typography>
+
+      {tracks.map((track) => {
+        const lag = stats.lags[track.id];
+        const isOver = lag !== undefined && Math.abs(lag) > cursorLagThreshold;
+        return (
+          <Typography
+            key={track.id}
+            variant="caption"
+            component="div"
+            sx={{ color: isOver ? 'error.light' : track.color, whiteSpace: 'nowrap' }}
+          >
+            {track.name.slice(0, 18)}: {lag === undefined ? '–' : `${lag >= 0 ? '+' : ''}${lag.toFixed(1)}ms`}
+          </Typography>
+        );
+      })}
+
+      <Typography variant="caption" component="div" sx={{ mt: 0.5, opacity: 0.8 }}>
+        {t('cursorLag.max')}: {stats.maxLag.toFixed(1)}ms · {t('cursorLag.late')}: {stats.lateChecks}
+      </Typography>
+    </Box>
+  );
+};
+
+export default CursorLagOverlay;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  Radio,
+  RadioGroup,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { getTrackEndTime } from '../hooks/audioStore/engine';
+import { renderMixdown } from '../hooks/audioStore/mixdown';
+
+type ExportRange = 'piece' | 'loop';
+
+interface ExportMixDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Render the current mix (what is heard) to a WAV file, whole piece or active loop
+ */
+const ExportMixDialog = ({ open, onClose }: ExportMixDialogProps) => {
+  const { t } = useTranslation();
+  const tracks = useAudioStore(state => state.tracks);
+  const loopState = useAudioStore(state => state.loopState);
+  const currentPieceName = useAudioStore(state => state.currentPieceName);
+
+  const [range, setRange] = useState<ExportRange>('piece');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+
+  // Active loop range, if any
+  const activeLoop = loopState.loops.find(l => l.id === loopState.activeLoopId);
+  const loopStart = loopState.markers.find(m => m.id === activeLoop?.startMarkerId)?.time;
+  const loopEnd = loopState.markers.find(m => m.id === activeLoop?.endMarkerId)?.time;
+  const loopRange = loopStart !== undefined && loopEnd !== undefined && loopEnd > loopStart
+    ? { start: loopStart, end: loopEnd }
+    : null;
+
+  const pieceDuration = Math.max(0, ...tracks.map(track => getTrackEndTime(track.id)));
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setError(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    const exportRange = range === 'loop' && loopRange ? loopRange : { start: 0, end: pieceDuration };
+    const { playbackState, masterVolume, limiterEnabled } = useAudioStore.getState();
+
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await renderMixdown(
+        {
+          tracks,
+          masterVolume,
+          limiterEnabled,
+          playbackRate: playbackState.playbackRate,
+          pitchSemitones: playbackState.pitchSemitones,
+          pitchCents: playbackState.pitchCents,
+          ...exportRange,
+        },
+        setProgress
+      );
+
+      // Download
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${currentPieceName || t('exportMix.defaultName')}${exportRange === loopRange ? ` (${formatTime(loopRange.start)}-${formatTime(loopRange.end)})` : ''}.wav`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setProgress(null);
+      onClose();
+    } catch (err) {
+      console.error('Failed to export mix:', err);
+      setError(t('exportMix.error'));
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('exportMix.title')}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>{t('exportMix.description')}</DialogContentText>
+
+        <RadioGroup
+          value={range === 'loop' && loopRange ? 'loop' : 'piece'}
+          onChange={(e) => setRange(e.target.value as ExportRange)}
+          sx={{ mt: 2 }}
+        >
+          <FormControlLabel
+            value="piece"
+            control={<Radio />}
+            label={`${t('exportMix.wholePiece')} (${formatTime(pieceDuration)})`}
+            disabled={isExporting}
+          />
+          <FormControlLabel
+            value="loop"
+            control={<Radio />}
+            label={loopRange
+              ? `${t('exportMix.activeLoop')} (${formatTime(loopRange.start)} → ${formatTime(loopRange.end)})`
+              : t('exportMix.noActiveLoop')}
+            disabled={!loopRange || isExporting}
+          />
+        </RadioGroup>
+
+        {isExporting && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress variant="determinate" value={progress * 100} />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isExporting}>
+          {t('exportMix.cancel')}
+        </Button>
+        <Button onClick={handleExport} variant="contained" disabled={isExporting || pieceDuration === 0}>
+          {isExporting ? t('exportMix.exporting', { percent: Math.round(progress * 100) }) : t('exportMix.export')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportMixDialog;
@@ -12,6 +12,9 @@ import {
 } from '@mui/material';
 import { Close, Headset, VolumeUp, Loop, Speed } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { SHORTCUT_ACTIONS, SHORTCUT_GROUPS, formatBinding, resolveShortcuts } from '../utils/shortcuts';
+import { shortcutActionLabel, shortcutGroupLabel } from '../i18n/shortcutLabels';
 
 interface HelpModalProps {
   open: boolean;
@@ -65,6 +68,8 @@ const ControlItem = ({
 
 const HelpModal = ({ open, onClose }: HelpModalProps) => {
   const { t } = useTranslation();
+  const shortcutOverrides = useAudioStore(state => state.shortcutOverrides);
+  const shortcuts = resolveShortcuts(shortcutOverrides);
 
   return (
     <Dialog
@@ -201,31 +206,32 @@ const HelpModal = ({ open, onClose }: HelpModalProps) => {
 
         {/* Keyboard Shortcuts */}
         <Section title={t('help.sections.keyboard.title')}>
+          {/* Generated from the key map, so it follows the user's changes */}
+          {SHORTCUT_GROUPS.map(group => {
+            const bound = SHORTCUT_ACTIONS.flatMap(action => {
+              const binding = shortcuts[action.id];
+              return action.group === group && binding ? [{ action, binding }] : [];
+            });
+            if (bound.length === 0) return null;
+            return (
+              <Box key={group} mb={2}>
+                <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                  {shortcutGroupLabel(t, group)}
+                </Typography>
+                <Stack spacing={1}>
+                  {bound.map(({ action, binding }) => (
+                    <Stack key={action.id} direction="row" spacing={1} alignItems="center">
+                      <Chip label={formatBinding(binding)} size="small" />
+                      <Typography variant="body2">
+                        {shortcutActionLabel(t, action)}
+                      </Typography>
+                    </Stack>
+                  ))}
+                </Stack>
+              </Box>
+            );
+          })}
           <Stack spacing={1} mb={2}>
-            <Stack direction="row" spacing={1} alignItems="center">
-              <Chip label="SPACE" size="small" />
-              <Typography variant="body2">
-                {t('help.sections.keyboard.space')}
-              </Typography>
-            </Stack>
-            <Stack direction="row" spacing={1} alignItems="center">
-              <Chip label="←" size="small" />
-              <Typography variant="body2">
-                {t('help.sections.keyboard.arrowLeft')}
-              </Typography>
-            </Stack>
-            <Stack direction="row" spacing={1} alignItems="center">
-              <Chip label="→" size="small" />
-              <Typography variant="body2">
-                {t('help.sections.keyboard.arrowRight')}
-              </Typography>
-            </Stack>
-            <Stack direction="row" spacing={1} alignItems="center">
-              <Chip label="Ctrl + ←" size="small" />
-              <Typography variant="body2">
-                {t('help.sections.keyboard.ctrlLeft')}
-              </Typography>
-            </Stack>
             <Stack direction="row" spacing={1} alignItems="center">
               <Chip label="Ctrl + 🖱️" size="small" />
               <Typography variant="body2">
@@ -240,7 +246,7 @@ const HelpModal = ({ open, onClose }: HelpModalProps) => {
             </Stack>
           </Stack>
           <Typography variant="caption" color="text.secondary" fontStyle="italic">
-            {t('help.sections.keyboard.more')}
+            {t('help.sections.keyboard.customize')}
           </Typography>
         </Section>
 
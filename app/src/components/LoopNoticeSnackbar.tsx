@@ -0,0 +1,37 @@
+import { Snackbar, Alert } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import type { LoopNotice } from '../types/audio';
+
+// Keys written out so i18next-parser keeps them on extract
+const NOTICE_MESSAGES: Record<LoopNotice['key'], (t: TFunction, values: LoopNotice['values']) => string> = {
+  markerLimit: (t, values) => t('markers.notices.markerLimit', values),
+  loopLimit: (t, values) => t('markers.notices.loopLimit', values),
+  loopTooShort: t => t('markers.notices.loopTooShort'),
+};
+
+/**
+ * Explains why a marker or loop was not created
+ */
+export function LoopNoticeSnackbar() {
+  const { t } = useTranslation();
+  const loopNotice = useAudioStore(state => state.loopNotice);
+  const dismissLoopNotice = useAudioStore(state => state.dismissLoopNotice);
+
+  return (
+    <Snackbar
+      open={Boolean(loopNotice)}
+      autoHideDuration={5000}
+      onClose={(_, reason) => {
+        if (reason !== 'clickaway') dismissLoopNotice();
+      }}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      sx={{ mb: 8 }}
+    >
+      <Alert onClose={dismissLoopNotice} severity="warning" sx={{ width: '100%' }}>
+        {loopNotice && NOTICE_MESSAGES[loopNotice.key](t, loopNotice.values)}
+      </Alert>
+    </Snackbar>
+  );
+}
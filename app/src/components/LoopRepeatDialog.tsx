@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { LoopCompleteAction } from '../types/audio';
+
+interface LoopRepeatDialogProps {
+  open: boolean;
+  repeatCount?: number;
+  onComplete?: LoopCompleteAction;
+  onClose: () => void;
+  onSave: (updates: { repeatCount: number; onComplete: LoopCompleteAction }) => void;
+}
+
+/**
+ * Number of passes for one loop (0 = forever) and what happens after the last one
+ */
+const LoopRepeatDialog = ({ open, repeatCount, onComplete, onClose, onSave }: LoopRepeatDialogProps) => {
+  const { t } = useTranslation();
+  const [count, setCount] = useState(repeatCount ?? 4);
+  const [action, setAction] = useState<LoopCompleteAction>(onComplete ?? 'continue');
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('loopRepeat.title')}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField
+            label={t('loopRepeat.count')}
+            helperText={t('loopRepeat.countHint')}
+            type="number"
+            size="small"
+            value={count}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (value >= 0) setCount(value);
+            }}
+            slotProps={{ htmlInput: { min: 0, step: 1 } }}
+          />
+          <TextField
+            select
+            label={t('loopRepeat.onComplete')}
+            size="small"
+            value={action}
+            disabled={count === 0}
+            onChange={(e) => setAction(e.target.value as LoopCompleteAction)}
+          >
+            <MenuItem value="stop">{t('loopRepeat.stop')}</MenuItem>
+            <MenuItem value="continue">{t('loopRepeat.continue')}</MenuItem>
+            <MenuItem value="next">{t('loopRepeat.next')}</MenuItem>
+          </TextField>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('loopRepeat.cancel')}</Button>
+        <Button
+          variant="contained"
+          onClick={() => {
+            onSave({ repeatCount: count, onComplete: action });
+            onClose();
+          }}
+        >
+          {t('loopRepeat.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LoopRepeatDialog;
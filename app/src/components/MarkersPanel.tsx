@@ -1,21 +1,86 @@
-import { Box, IconButton, Typography, Chip, Menu, MenuItem, ListItemIcon, ListItemText, Dialog, DialogTitle, DialogContent, DialogContentText, DialogActions, Button } from '@mui/material';
-import { Close, MoreVert, Loop as LoopIcon, Delete, PlayArrow } from '@mui/icons-material';
+import { Box, IconButton, Typography, Chip, Menu, MenuItem, ListItemIcon, ListItemText, Dialog, DialogTitle, DialogContent, DialogContentText, DialogActions, Button, Divider, Autocomplete, TextField, ListSubheader } from '@mui/material';
+import { Close, MoreVert, Loop as LoopIcon, Delete, PlayArrow, Speed, ErrorOutline, SkipPrevious, Repeat, PlaylistPlay, Stop, Flag, StickyNote2, Edit, Check } from '@mui/icons-material';
 import { useAudioStore } from '../hooks/useAudioStore';
 import { useState } from 'react';
+import SpeedTrainerDialog from './SpeedTrainerDialog';
+import PreRollDialog from './PreRollDialog';
+import LoopRepeatDialog from './LoopRepeatDialog';
+import VirtualizedList from './VirtualizedList';
+import { COLORS, SECTION_NAMES, getLoopEntryTime, getMarkerName } from '../hooks/audioStore/shared';
+import type { Loop, Marker, MarkerKind } from '../types/audio';
 import {logger} from '../utils/logger';
 import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+
+const MARKER_KINDS: MarkerKind[] = ['section', 'cue', 'note'];
+
+// Keys written out so i18next-parser keeps them on extract
+const MARKER_KIND_LABELS: Record<MarkerKind, (t: TFunction) => string> = {
+  section: t => t('markers.kinds.section'),
+  cue: t => t('markers.kinds.cue'),
+  note: t => t('markers.kinds.note'),
+};
+
+// Past this many chips, markers/loops are shown as a scrolling list that only mounts visible rows
+const VIRTUALIZE_THRESHOLD = 30;
+const ROW_HEIGHT = 32;
+const LIST_MAX_HEIGHT = 160;
 
 const MarkersPanel = () => {
   const { t } = useTranslation();
-  const { loopState, removeMarker, removeLoop, seek, createLoop, setActiveLoop, play } = useAudioStore();
+  const {
+    loopState,
+    removeMarker,
+    updateMarker,
+    removeLoop,
+    seek,
+    createLoop,
+    setActiveLoop,
+    play,
+    playbackState,
+    speedTrainerProgress,
+    updateLoopSpeedTrainer,
+    updateLoopPreRoll,
+    updateLoopRepeat,
+    loopRepeatProgress,
+    routines,
+    routineProgress,
+    stopRoutine,
+    markLoopMistake,
+    beatGrid,
+    groupHistory,
+  } = useAudioStore();
   const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; markerId: string } | null>(null);
   const [loopMenuAnchor, setLoopMenuAnchor] = useState<{ element: HTMLElement; loopId: string } | null>(null);
   const [loopStartMarker, setLoopStartMarker] = useState<string | null>(null);
   const [longPressTimer, setLongPressTimer] = useState<number | null>(null);
   const [deleteAllDialogOpen, setDeleteAllDialogOpen] = useState(false);
+  const [speedTrainerLoopId, setSpeedTrainerLoopId] = useState<string | null>(null);
+  const [preRollLoopId, setPreRollLoopId] = useState<string | null>(null);
+  const [repeatLoopId, setRepeatLoopId] = useState<string | null>(null);
+  // Marker whose label is being edited inline
+  const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
+  const [labelInput, setLabelInput] = useState('');
 
   if (loopState.markers.length === 0) return null;
 
+  const runningRoutine = routines.find(r => r.id === routineProgress?.routineId);
+  const menuMarker = loopState.markers.find(m => m.id === menuAnchor?.markerId);
+
+  // Loop endpoints, looked up once instead of scanning loops for every marker
+  const endpointIds = new Set<string>();
+  const activeEndpointIds = new Set<string>();
+  loopState.loops.forEach(l => {
+    endpointIds.add(l.startMarkerId);
+    endpointIds.add(l.endMarkerId);
+    if (l.enabled) {
+      activeEndpointIds.add(l.startMarkerId);
+      activeEndpointIds.add(l.endMarkerId);
+    }
+  });
+  const virtualizeMarkers = loopState.markers.length > VIRTUALIZE_THRESHOLD;
+  const virtualizeLoops = loopState.loops.length > VIRTUALIZE_THRESHOLD;
+
   const handleMarkerClick = (time: number) => {
     // Disable loop when clicking on a marker (cleaner UX)
     if (loopState.activeLoopId) {
@@ -79,6 +144,17 @@ const MarkersPanel = () => {
     handleMenuClose();
   };
 
+  const handleStartLabelEdit = (markerId: string) => {
+    setLabelInput(loopState.markers.find(m => m.id === markerId)?.label ?? '');
+    setEditingMarkerId(markerId);
+    handleMenuClose();
+  };
+
+  const commitLabelEdit = (label = labelInput) => {
+    if (editingMarkerId) updateMarker(editingMarkerId, { label });
+    setEditingMarkerId(null);
+  };
+
   const handlePointerDown = (_e: React.PointerEvent, markerId: string) => {
     const timer = window.setTimeout(() => {
       // Long press detected
@@ -99,11 +175,12 @@ const MarkersPanel = () => {
     const loop = loopState.loops.find(l => l.id === loopId);
     if (!loop) return;
     
-    const startMarker = loopState.markers.find(m => m.id === loop.startMarkerId);
-    if (!startMarker) return;
+    // Start marker, minus the loop's pre-roll
+    const entryTime = getLoopEntryTime(loop, loopState.markers, beatGrid);
+    if (entryTime === null) return;
     
     setActiveLoop(loopId);
-    seek(startMarker.time);
+    seek(entryTime);
     play();
   };
 
@@ -121,11 +198,29 @@ const MarkersPanel = () => {
     handleLoopMenuClose();
   };
 
+  const handleOpenSpeedTrainer = (loopId: string) => {
+    setSpeedTrainerLoopId(loopId);
+    handleLoopMenuClose();
+  };
+
+  const handleOpenPreRoll = (loopId: string) => {
+    setPreRollLoopId(loopId);
+    handleLoopMenuClose();
+  };
+
+  const handleOpenRepeat = (loopId: string) => {
+    setRepeatLoopId(loopId);
+    handleLoopMenuClose();
+  };
+
   const handleDeleteAll = () => {
-    // Remove all loops first
-    loopState.loops.forEach(loop => removeLoop(loop.id));
-    // Then remove all markers
-    loopState.markers.forEach(marker => removeMarker(marker.id));
+    // One undo step brings everything back
+    groupHistory(() => {
+      // Remove all loops first
+      loopState.loops.forEach(loop => removeLoop(loop.id));
+      // Then remove all markers
+      loopState.markers.forEach(marker => removeMarker(marker.id));
+    });
     setDeleteAllDialogOpen(false);
   };
 
@@ -179,9 +274,119 @@ const MarkersPanel = () => {
   //   });
   // };
 
-  const getMarkerNumber = (markerId: string) => {
-    const index = loopState.markers.findIndex(m => m.id === markerId);
-    return index !== -1 ? index + 1 : '?';
+  const renderMarkerChip = (marker: Marker, index: number) => {
+    const isInActiveLoop = activeEndpointIds.has(marker.id);
+    const isLoopEndpoint = endpointIds.has(marker.id);
+
+    const isLoopStartSelection = loopStartMarker === marker.id;
+
+    if (editingMarkerId === marker.id) {
+      return (
+        <Autocomplete
+          key={marker.id}
+          freeSolo
+          size="small"
+          options={marker.kind === 'section' ? SECTION_NAMES : []}
+          inputValue={labelInput}
+          onInputChange={(_, value) => setLabelInput(value)}
+          onChange={(_, value) => {
+            // Suggestion picked (or Enter)
+            if (typeof value === 'string') commitLabelEdit(value);
+          }}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              autoFocus
+              placeholder={t('markers.labelPlaceholder')}
+              onBlur={() => commitLabelEdit()}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Escape') setEditingMarkerId(null);
+                // Enter on an empty field removes the label (no change event then)
+                if (e.key === 'Enter' && !labelInput) commitLabelEdit('');
+              }}
+            />
+          )}
+          sx={{ width: 180 }}
+        />
+      );
+    }
+
+    const kindIcon = marker.kind === 'section'
+      ? <Flag fontSize="small" />
+      : marker.kind === 'note'
+      ? <StickyNote2 fontSize="small" />
+      : <PlayArrow fontSize="small" />;
+
+    return (
+      <Chip
+        key={marker.id}
+        label={`${index + 1}${marker.label ? ` ${marker.label}` : ''} - ${formatTime(marker.time)}`}
+        size="small"
+        icon={kindIcon}
+        onDoubleClick={() => handleStartLabelEdit(marker.id)}
+        variant={isLoopEndpoint ? 'outlined' : 'filled'}
+        color={isInActiveLoop ? 'primary' : 'default'}
+        onClick={() => handleMarkerClick(marker.time)}
+        onPointerDown={(e) => handlePointerDown(e, marker.id)}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDelete={(e) => handleMenuClick(e as React.MouseEvent<HTMLElement>, marker.id)}
+        deleteIcon={<MoreVert fontSize="small" />}
+        sx={{
+          cursor: 'pointer',
+          bgcolor: isLoopStartSelection ? 'primary.main' : undefined,
+          color: isLoopStartSelection ? 'primary.contrastText' : undefined,
+          fontStyle: marker.kind === 'note' ? 'italic' : undefined,
+          '& .MuiChip-icon': marker.color ? { color: marker.color } : undefined,
+          '&:hover': {
+            bgcolor: !isLoopEndpoint && isInActiveLoop ? 'primary.dark' : 'action.hover',
+          },
+        }}
+      />
+    );
+  };
+
+  const renderLoopChip = (loop: Loop) => {
+    const startNum = getMarkerName(loopState.markers, loop.startMarkerId);
+    const endNum = getMarkerName(loopState.markers, loop.endMarkerId);
+    const isActive = loop.enabled;
+    const trainer = loop.speedTrainer?.enabled ? loop.speedTrainer : null;
+    const progress = isActive && speedTrainerProgress?.loopId === loop.id ? speedTrainerProgress : null;
+
+    // Speed trainer status: current rate and clean reps towards the next step
+    let label = `${startNum} → ${endNum}`;
+    if (trainer && progress) {
+      const isDone = playbackState.playbackRate >= trainer.targetRate;
+      label += isDone
+        ? ` · ${Math.round(playbackState.playbackRate * 100)}% ✓`
+        : ` · ${Math.round(playbackState.playbackRate * 100)}% (${progress.cleanReps}/${trainer.cleanReps})`;
+    }
+
+    // Repeat count: passes left including the current one
+    if (loop.repeatCount) {
+      const pass = isActive && loopRepeatProgress?.loopId === loop.id ? loopRepeatProgress.pass : 1;
+      label += ` · ×${isActive ? Math.max(0, loop.repeatCount - pass + 1) : loop.repeatCount}`;
+    }
+
+    return (
+      <Chip
+        key={loop.id}
+        label={label}
+        size="small"
+        icon={trainer ? <Speed fontSize="small" /> : <LoopIcon fontSize="small" />}
+        color={isActive ? 'primary' : 'default'}
+        onClick={() => handleLoopClick(loop.id)}
+        onDelete={(e) => handleLoopMenuClick(e as React.MouseEvent<HTMLElement>, loop.id)}
+        deleteIcon={<MoreVert fontSize="small" />}
+        sx={{
+          cursor: 'pointer',
+          '&:hover': {
+            bgcolor: isActive ? 'primary.dark' : 'action.hover',
+          },
+        }}
+      />
+    );
   };
 
   return (
@@ -202,42 +407,7 @@ const MarkersPanel = () => {
         <Typography variant="body2" sx={{ color: 'text.secondary', mr: 1 }}>
           {t('markers.markers')}
         </Typography>
-        {loopState.markers.map((marker, index) => {
-          const isInActiveLoop = loopState.loops.find(
-            l => l.enabled && (l.startMarkerId === marker.id || l.endMarkerId === marker.id)
-          );
-          
-          const isLoopEndpoint = loopState.loops.some(
-            l => l.startMarkerId === marker.id || l.endMarkerId === marker.id
-          );
-
-          const isLoopStartSelection = loopStartMarker === marker.id;
-
-          return (
-            <Chip
-              key={marker.id}
-              label={`${index + 1} - ${formatTime(marker.time)}`}
-              size="small"
-              icon={<PlayArrow fontSize="small" />}
-              variant={isLoopEndpoint ? 'outlined' : 'filled'}
-              color={isInActiveLoop ? 'primary' : 'default'}
-              onClick={() => handleMarkerClick(marker.time)}
-              onPointerDown={(e) => handlePointerDown(e, marker.id)}
-              onPointerUp={handlePointerUp}
-              onPointerCancel={handlePointerUp}
-              onDelete={(e) => handleMenuClick(e as React.MouseEvent<HTMLElement>, marker.id)}
-              deleteIcon={<MoreVert fontSize="small" />}
-              sx={{
-                cursor: 'pointer',
-                bgcolor: isLoopStartSelection ? 'primary.main' : undefined,
-                color: isLoopStartSelection ? 'primary.contrastText' : undefined,
-                '&:hover': {
-                  bgcolor: !isLoopEndpoint && isInActiveLoop ? 'primary.dark' : 'action.hover',
-                },
-              }}
-            />
-          );
-        })}
+        {!virtualizeMarkers && loopState.markers.map(renderMarkerChip)}
         
         {/* Delete all button */}
         <IconButton
@@ -249,6 +419,15 @@ const MarkersPanel = () => {
           <Close fontSize="small" />
         </IconButton>
       </Box>
+      {virtualizeMarkers && (
+        <VirtualizedList
+          items={loopState.markers}
+          rowHeight={ROW_HEIGHT}
+          maxHeight={LIST_MAX_HEIGHT}
+          getKey={(marker) => marker.id}
+          renderItem={renderMarkerChip}
+        />
+      )}
 
       {/* Loops Section */}
       {loopState.loops.length > 0 && (
@@ -256,32 +435,46 @@ const MarkersPanel = () => {
           <Typography variant="body2" sx={{ color: 'text.secondary', mr: 1 }}>
             {t('markers.loops')}
           </Typography>
-          {loopState.loops.map((loop) => {
-            const startNum = getMarkerNumber(loop.startMarkerId);
-            const endNum = getMarkerNumber(loop.endMarkerId);
-            const isActive = loop.enabled;
-
-            return (
-              <Chip
-                key={loop.id}
-                label={`${startNum} → ${endNum}`}
-                size="small"
-                icon={<LoopIcon fontSize="small" />}
-                color={isActive ? 'primary' : 'default'}
-                onClick={() => handleLoopClick(loop.id)}
-                onDelete={(e) => handleLoopMenuClick(e as React.MouseEvent<HTMLElement>, loop.id)}
-                deleteIcon={<MoreVert fontSize="small" />}
-                sx={{
-                  cursor: 'pointer',
-                  '&:hover': {
-                    bgcolor: isActive ? 'primary.dark' : 'action.hover',
-                  },
-                }}
-              />
-            );
-          })}
+          {!virtualizeLoops && loopState.loops.map(renderLoopChip)}
+
+          {/* Flag the current repetition as not clean (speed trainer) */}
+          {speedTrainerProgress && (
+            <Chip
+              label={t('speedTrainer.mistake')}
+              size="small"
+              variant={speedTrainerProgress.hadMistake ? 'filled' : 'outlined'}
+              color={speedTrainerProgress.hadMistake ? 'error' : 'default'}
+              icon={<ErrorOutline fontSize="small" />}
+              onClick={markLoopMistake}
+            />
+          )}
+
+          {/* Running practice routine */}
+          {runningRoutine && routineProgress && (
+            <Chip
+              label={t('routines.running', {
+                name: runningRoutine.name,
+                step: routineProgress.stepIndex + 1,
+                total: runningRoutine.steps.length,
+              })}
+              size="small"
+              color="secondary"
+              icon={<PlaylistPlay fontSize="small" />}
+              onDelete={stopRoutine}
+              deleteIcon={<Stop fontSize="small" />}
+            />
+          )}
         </Box>
       )}
+      {virtualizeLoops && (
+        <VirtualizedList
+          items={loopState.loops}
+          rowHeight={ROW_HEIGHT}
+          maxHeight={LIST_MAX_HEIGHT}
+          getKey={(loop) => loop.id}
+          renderItem={renderLoopChip}
+        />
+      )}
 
       {/* Marker Menu */}
       <Menu
@@ -298,12 +491,53 @@ const MarkersPanel = () => {
              loopStartMarker ? t('markers.setLoopEnd') : t('markers.setLoopStart')}
           </ListItemText>
         </MenuItem>
+        <MenuItem onClick={() => menuAnchor && handleStartLabelEdit(menuAnchor.markerId)}>
+          <ListItemIcon>
+            <Edit fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>{t('markers.editLabel')}</ListItemText>
+        </MenuItem>
         <MenuItem onClick={() => menuAnchor && handleDelete(menuAnchor.markerId)}>
           <ListItemIcon>
             <Delete fontSize="small" />
           </ListItemIcon>
           <ListItemText>{t('markers.deleteMarker')}</ListItemText>
         </MenuItem>
+        <Divider />
+        <ListSubheader sx={{ lineHeight: '32px' }}>{t('markers.kind')}</ListSubheader>
+        {MARKER_KINDS.map((kind) => (
+          <MenuItem
+            key={kind}
+            dense
+            onClick={() => menuAnchor && updateMarker(menuAnchor.markerId, { kind })}
+          >
+            <ListItemIcon>
+              {(menuMarker?.kind ?? 'cue') === kind && <Check fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText>{MARKER_KIND_LABELS[kind](t)}</ListItemText>
+          </MenuItem>
+        ))}
+        <ListSubheader sx={{ lineHeight: '32px' }}>{t('markers.color')}</ListSubheader>
+        <Box sx={{ display: 'flex', gap: 0.75, px: 2, pb: 1 }}>
+          {[undefined, ...COLORS].map((color) => (
+            <Box
+              key={color ?? 'default'}
+              role="button"
+              aria-label={color ?? t('markers.defaultColor')}
+              onClick={() => menuAnchor && updateMarker(menuAnchor.markerId, { color })}
+              sx={{
+                width: 18,
+                height: 18,
+                borderRadius: '50%',
+                cursor: 'pointer',
+                bgcolor: color ?? 'text.secondary',
+                outline: menuMarker?.color === color ? 2 : 0,
+                outlineColor: 'text.primary',
+                outlineOffset: 2,
+              }}
+            />
+          ))}
+        </Box>
       </Menu>
 
       {/* Loop Menu */}
@@ -312,6 +546,24 @@ const MarkersPanel = () => {
         open={Boolean(loopMenuAnchor)}
         onClose={handleLoopMenuClose}
       >
+        <MenuItem onClick={() => loopMenuAnchor && handleOpenSpeedTrainer(loopMenuAnchor.loopId)}>
+          <ListItemIcon>
+            <Speed fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>{t('speedTrainer.menu')}</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => loopMenuAnchor && handleOpenPreRoll(loopMenuAnchor.loopId)}>
+          <ListItemIcon>
+            <SkipPrevious fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>{t('preRoll.menu')}</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => loopMenuAnchor && handleOpenRepeat(loopMenuAnchor.loopId)}>
+          <ListItemIcon>
+            <Repeat fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>{t('loopRepeat.menu')}</ListItemText>
+        </MenuItem>
         <MenuItem onClick={() => loopMenuAnchor && handleDeleteLoop(loopMenuAnchor.loopId)}>
           <ListItemIcon>
             <Delete fontSize="small" />
@@ -320,6 +572,40 @@ const MarkersPanel = () => {
         </MenuItem>
       </Menu>
 
+      {/* Speed Trainer Dialog */}
+      {speedTrainerLoopId && (
+        <SpeedTrainerDialog
+          key={speedTrainerLoopId}
+          open
+          speedTrainer={loopState.loops.find(l => l.id === speedTrainerLoopId)?.speedTrainer}
+          onClose={() => setSpeedTrainerLoopId(null)}
+          onSave={(speedTrainer) => updateLoopSpeedTrainer(speedTrainerLoopId, speedTrainer)}
+        />
+      )}
+
+      {/* Pre-roll Dialog */}
+      {preRollLoopId && (
+        <PreRollDialog
+          key={preRollLoopId}
+          open
+          preRoll={loopState.loops.find(l => l.id === preRollLoopId)?.preRoll}
+          onClose={() => setPreRollLoopId(null)}
+          onSave={(preRoll) => updateLoopPreRoll(preRollLoopId, preRoll)}
+        />
+      )}
+
+      {/* Repeat Count Dialog */}
+      {repeatLoopId && (
+        <LoopRepeatDialog
+          key={repeatLoopId}
+          open
+          repeatCount={loopState.loops.find(l => l.id === repeatLoopId)?.repeatCount}
+          onComplete={loopState.loops.find(l => l.id === repeatLoopId)?.onComplete}
+          onClose={() => setRepeatLoopId(null)}
+          onSave={(updates) => updateLoopRepeat(repeatLoopId, updates)}
+        />
+      )}
+
       {/* Delete All Confirmation Dialog */}
       <Dialog
         open={deleteAllDialogOpen}
@@ -0,0 +1,209 @@
+import {useState} from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import VolumeOffIcon from '@mui/icons-material/VolumeOff';
+import VolumeUpIcon from '@mui/icons-material/VolumeUp';
+import AvTimerIcon from '@mui/icons-material/AvTimer';
+import FirstPageIcon from '@mui/icons-material/FirstPage';
+import {useTranslation} from 'react-i18next';
+import {useAudioStore} from '../hooks/useAudioStore';
+import {useThrottle} from '../hooks/useThrottle';
+import {getPlaybackTime} from '../hooks/usePlaybackTime';
+
+const BEATS_PER_BAR = [2, 3, 4, 5, 6, 7, 9, 12];
+const BEAT_UNITS = [2, 4, 8, 16];
+
+/**
+ * Virtual mixer track for the built-in metronome
+ * Holds the piece's beat grid (tempo, time signature, first downbeat)
+ */
+const MetronomeTrack = () => {
+  const { t } = useTranslation();
+  const beatGrid = useAudioStore(state => state.beatGrid);
+  const metronome = useAudioStore(state => state.metronome);
+  const setBeatGrid = useAudioStore(state => state.setBeatGrid);
+  const setMetronome = useAudioStore(state => state.setMetronome);
+
+  // Volume state: use drag value when dragging, otherwise sync with store
+  const [isDraggingVolume, setIsDraggingVolume] = useState(false);
+  const [dragVolume, setDragVolume] = useState(metronome.volume * 100);
+  const localVolume = isDraggingVolume ? dragVolume : metronome.volume * 100;
+
+  // Text fields are edited locally and committed on blur/Enter
+  const [bpmInput, setBpmInput] = useState<string | null>(null);
+  const [offsetInput, setOffsetInput] = useState<string | null>(null);
+
+  const throttledSetVolume = useThrottle((volume: number) => {
+    setMetronome({ volume });
+  }, 50);
+
+  const commitBpm = () => {
+    if (bpmInput === null) return;
+    const bpm = parseFloat(bpmInput);
+    if (bpm >= 20 && bpm <= 400) {
+      setBeatGrid({ bpm });
+    }
+    setBpmInput(null);
+  };
+
+  const commitOffset = () => {
+    if (offsetInput === null) return;
+    const downbeatOffset = parseFloat(offsetInput);
+    if (!isNaN(downbeatOffset)) {
+      setBeatGrid({ downbeatOffset });
+    }
+    setOffsetInput(null);
+  };
+
+  const isSilent = !metronome.enabled || metronome.isMuted;
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{
+        p: 2,
+        mb: 1.5,
+        borderLeft: '4px solid',
+        borderLeftColor: isSilent ? 'rgba(128, 128, 128, 0.3)' : 'primary.main',
+        opacity: isSilent ? 0.7 : 1,
+        transition: 'opacity 0.2s',
+      }}
+    >
+      {/* Header */}
+      <Box display="flex" alignItems="center" gap={1}>
+        <AvTimerIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+        <Typography variant="subtitle1" fontWeight={600} noWrap>
+          {t('metronome.title')}
+        </Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        <Tooltip title={t('metronome.enable')}>
+          <Switch
+            size="small"
+            checked={metronome.enabled}
+            onChange={(e) => setMetronome({ enabled: e.target.checked })}
+          />
+        </Tooltip>
+      </Box>
+
+      {/* Controls */}
+      <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+        {/* Mute */}
+        <IconButton
+          size="small"
+          onClick={() => setMetronome({ isMuted: !metronome.isMuted })}
+          sx={{
+            bgcolor: metronome.isMuted ? 'error.main' : 'transparent',
+            color: metronome.isMuted ? 'white' : 'inherit',
+            '&:hover': {
+              bgcolor: metronome.isMuted ? 'error.dark' : 'action.hover',
+            },
+          }}
+        >
+          {metronome.isMuted ? <VolumeOffIcon /> : <VolumeUpIcon />}
+        </IconButton>
+
+        {/* Volume slider */}
+        <Box flex={1} px={1} display="flex" alignItems="center" maxWidth={200} minWidth={120}>
+          <Slider
+            value={localVolume}
+            onChange={(_, value) => {
+              setDragVolume(value as number);
+              setIsDraggingVolume(true);
+              throttledSetVolume((value as number) / 100);
+            }}
+            onChangeCommitted={(_, value) => {
+              setMetronome({ volume: (value as number) / 100 });
+              setIsDraggingVolume(false);
+            }}
+            disabled={metronome.isMuted}
+            size="small"
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `${Math.round(value)}%`}
+          />
+        </Box>
+
+        {/* Tempo */}
+        <TextField
+          label={t('metronome.bpm')}
+          type="number"
+          size="small"
+          value={bpmInput ?? beatGrid.bpm}
+          onChange={(e) => setBpmInput(e.target.value)}
+          onBlur={commitBpm}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') commitBpm();
+          }}
+          slotProps={{ htmlInput: { min: 20, max: 400, step: 0.1 } }}
+          sx={{ width: 100 }}
+        />
+
+        {/* Time signature */}
+        <Box display="flex" alignItems="center" gap={0.5}>
+          <Select
+            size="small"
+            value={beatGrid.beatsPerBar}
+            onChange={(e) => setBeatGrid({ beatsPerBar: Number(e.target.value) })}
+            aria-label={t('metronome.timeSignature')}
+          >
+            {BEATS_PER_BAR.map((beats) => (
+              <MenuItem key={beats} value={beats}>{beats}</MenuItem>
+            ))}
+          </Select>
+          <Typography variant="body2">/</Typography>
+          <Select
+            size="small"
+            value={beatGrid.beatUnit}
+            onChange={(e) => setBeatGrid({ beatUnit: Number(e.target.value) })}
+            aria-label={t('metronome.timeSignature')}
+          >
+            {BEAT_UNITS.map((unit) => (
+              <MenuItem key={unit} value={unit}>{unit}</MenuItem>
+            ))}
+          </Select>
+        </Box>
+
+        {/* First downbeat */}
+        <Box display="flex" alignItems="center" gap={0.5}>
+          <TextField
+            label={t('metronome.downbeatOffset')}
+            type="number"
+            size="small"
+            value={offsetInput ?? beatGrid.downbeatOffset.toFixed(3)}
+            onChange={(e) => setOffsetInput(e.target.value)}
+            onBlur={commitOffset}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter') commitOffset();
+            }}
+            slotProps={{ htmlInput: { step: 0.01 } }}
+            sx={{ width: 120 }}
+          />
+          <Tooltip title={t('metronome.setDownbeatHere')}>
+            <Button
+              size="small"
+              onClick={() => setBeatGrid({ downbeatOffset: getPlaybackTime() })}
+              sx={{ minWidth: 0 }}
+            >
+              <FirstPageIcon fontSize="small" />
+            </Button>
+          </Tooltip>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+};
+
+export default MetronomeTrack;
@@ -0,0 +1,164 @@
+import {useEffect, useState} from 'react';
+import {Box, ButtonBase, Stack, Tooltip} from '@mui/material';
+import {useTranslation} from 'react-i18next';
+import {useAudioStore} from '../hooks/useAudioStore';
+import {getOutputLevels} from '../hooks/audioStore/engine';
+
+const MIN_DB = -48; // Bottom of the meter scale
+const MAX_DB = 3; // Leaves room to show overs
+const PEAK_DECAY = 0.92; // Per frame, displayed peak falls back smoothly
+const CLIP_LEVEL = 0.999; // 0 dBFS
+const UPDATE_INTERVAL = 33; // ms (~30fps)
+
+interface MeterLevels {
+  peak: number[];
+  rms: number[];
+  reduction: number;
+}
+
+const SILENCE: MeterLevels = { peak: [0, 0], rms: [0, 0], reduction: 0 };
+
+const toPercent = (linear: number) => {
+  const db = linear > 0 ? 20 * Math.log10(linear) : MIN_DB;
+  return (Math.max(0, Math.min(MAX_DB - MIN_DB, db - MIN_DB)) / (MAX_DB - MIN_DB)) * 100;
+};
+
+const ZERO_DB_PERCENT = toPercent(1);
+
+/**
+ * Stereo output meter (peak + RMS) with latching clip indicators and limiter toggle
+ * Click a clip indicator to reset it
+ */
+const OutputMeter = () => {
+  const { t } = useTranslation();
+  const isPlaying = useAudioStore(state => state.playbackState.isPlaying);
+  const limiterEnabled = useAudioStore(state => state.limiterEnabled);
+  const setLimiterEnabled = useAudioStore(state => state.setLimiterEnabled);
+
+  const [levels, setLevels] = useState<MeterLevels>(SILENCE);
+  const [clipped, setClipped] = useState([false, false]);
+
+  // Poll the analysers while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let lastUpdate = 0;
+    const update = (timestamp: number) => {
+      frame = requestAnimationFrame(update);
+      if (timestamp - lastUpdate < UPDATE_INTERVAL) return;
+      lastUpdate = timestamp;
+
+      const output = getOutputLevels();
+      if (!output) return;
+
+      setLevels(prev => ({
+        peak: output.peak.map((p, ch) => Math.max(p, (prev.peak[ch] ?? 0) * PEAK_DECAY)),
+        rms: output.rms,
+        reduction: output.reduction,
+      }));
+      if (output.peak.some(p => p >= CLIP_LEVEL)) {
+        setClipped(prev => prev.map((c, ch) => c || output.peak[ch] >= CLIP_LEVEL));
+      }
+    };
+    frame = requestAnimationFrame(update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      setLevels(SILENCE);
+    };
+  }, [isPlaying]);
+
+  return (
+    <Stack direction="row" spacing={0.75} alignItems="center">
+      <Stack spacing={0.5} sx={{ width: 72 }}>
+        {[0, 1].map((channel) => (
+          <Box key={channel} display="flex" alignItems="center" gap={0.5}>
+            <Box
+              sx={{
+                position: 'relative',
+                flex: 1,
+                height: 4,
+                borderRadius: 0.5,
+                overflow: 'hidden',
+                bgcolor: 'action.hover',
+              }}
+            >
+              {/* RMS fill */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  inset: 0,
+                  width: `${toPercent(levels.rms[channel] ?? 0)}%`,
+                  bgcolor: 'success.main',
+                }}
+              />
+              {/* Peak marker */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  left: `calc(${toPercent(levels.peak[channel] ?? 0)}% - 1px)`,
+                  width: 2,
+                  bgcolor: (levels.peak[channel] ?? 0) >= CLIP_LEVEL ? 'error.main' : 'warning.main',
+                }}
+              />
+              {/* 0 dBFS tick */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  left: `${ZERO_DB_PERCENT}%`,
+                  width: '1px',
+                  bgcolor: 'text.disabled',
+                }}
+              />
+            </Box>
+            <Tooltip title={t('meter.clip')}>
+              <ButtonBase
+                onClick={() => setClipped([false, false])}
+                aria-label={t('meter.clip')}
+                sx={{
+                  width: 6,
+                  height: 6,
+                  borderRadius: '50%',
+                  bgcolor: clipped[channel] ? 'error.main' : 'action.disabledBackground',
+                }}
+              />
+            </Tooltip>
+          </Box>
+        ))}
+      </Stack>
+
+      <Tooltip
+        title={limiterEnabled
+          ? t('meter.limiterOn', { reduction: Math.abs(levels.reduction).toFixed(1) })
+          : t('meter.limiterOff')}
+      >
+        <ButtonBase
+          onClick={() => setLimiterEnabled(!limiterEnabled)}
+          aria-pressed={limiterEnabled}
+          aria-label={t('meter.limiter')}
+          sx={{
+            px: 0.5,
+            borderRadius: 0.5,
+            fontSize: 10,
+            fontWeight: 700,
+            lineHeight: '16px',
+            border: '1px solid',
+            borderColor: limiterEnabled ? 'secondary.main' : 'divider',
+            color: limiterEnabled ? 'secondary.main' : 'text.disabled',
+            // Glows while the limiter is reducing gain
+            bgcolor: limiterEnabled && levels.reduction < -0.5 ? 'action.selected' : 'transparent',
+          }}
+        >
+          {t('meter.limiterShort')}
+        </ButtonBase>
+      </Tooltip>
+    </Stack>
+  );
+};
+
+export default OutputMeter;
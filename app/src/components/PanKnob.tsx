@@ -0,0 +1,124 @@
+import {useRef, useState} from 'react';
+import {Box, Tooltip} from '@mui/material';
+import {useTranslation} from 'react-i18next';
+
+interface PanKnobProps {
+  value: number; // -1 (left) to 1 (right)
+  color: string;
+  disabled?: boolean;
+  onChange: (pan: number) => void;
+  onChangeCommitted: (pan: number) => void;
+}
+
+const KNOB_SIZE = 28;
+const MAX_ANGLE = 135; // Degrees each side of centre
+const DRAG_RANGE = 100; // Pixels of vertical drag for the full range
+const KEY_STEP = 0.05;
+
+const clampPan = (pan: number) => Math.max(-1, Math.min(1, Math.round(pan * 100) / 100));
+
+/**
+ * Compact rotary pan control
+ * Drag up/down (or use arrow keys) to pan, double-click to centre
+ */
+const PanKnob = ({ value, color, disabled = false, onChange, onChangeCommitted }: PanKnobProps) => {
+  const { t } = useTranslation();
+  const dragRef = useRef<{ startY: number; startValue: number } | null>(null);
+  // Drag value when dragging, otherwise sync with the track
+  const [dragValue, setDragValue] = useState<number | null>(null);
+  const pan = dragValue ?? value;
+
+  const formatPan = (p: number) => {
+    if (Math.abs(p) < 0.005) return t('track.panCenter');
+    const amount = Math.round(Math.abs(p) * 100);
+    return p < 0 ? t('track.panLeft', { amount }) : t('track.panRight', { amount });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startY: e.clientY, startValue: value };
+    setDragValue(value);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const delta = (dragRef.current.startY - e.clientY) / DRAG_RANGE;
+    const next = clampPan(dragRef.current.startValue + delta * 2);
+    setDragValue(next);
+    onChange(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (dragValue !== null) onChangeCommitted(dragValue);
+    setDragValue(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    let next: number | null = null;
+    if (e.key === 'ArrowUp' || e.key === 'ArrowRight') next = clampPan(value + KEY_STEP);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowLeft') next = clampPan(value - KEY_STEP);
+    if (e.key === 'Home') next = -1;
+    if (e.key === 'End') next = 1;
+    if (next === null) return;
+    // Keep arrows away from the global transport shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    onChangeCommitted(next);
+  };
+
+  return (
+    <Tooltip title={`${t('track.pan')}: ${formatPan(pan)}`}>
+      <Box
+        role="slider"
+        tabIndex={disabled ? -1 : 0}
+        aria-label={t('track.pan')}
+        aria-valuemin={-1}
+        aria-valuemax={1}
+        aria-valuenow={pan}
+        aria-valuetext={formatPan(pan)}
+        aria-disabled={disabled}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => !disabled && onChangeCommitted(0)}
+        onKeyDown={handleKeyDown}
+        sx={{
+          position: 'relative',
+          flexShrink: 0,
+          width: KNOB_SIZE,
+          height: KNOB_SIZE,
+          borderRadius: '50%',
+          border: '2px solid',
+          borderColor: disabled ? 'action.disabled' : color,
+          cursor: disabled ? 'default' : 'ns-resize',
+          touchAction: 'none',
+          opacity: disabled ? 0.5 : 1,
+          '&:focus-visible': { outline: '2px solid', outlineColor: 'primary.main', outlineOffset: 2 },
+        }}
+      >
+        {/* Indicator line */}
+        <Box
+          sx={{
+            position: 'absolute',
+            left: '50%',
+            top: 2,
+            width: 2,
+            height: KNOB_SIZE / 2 - 4,
+            ml: '-1px',
+            borderRadius: 1,
+            bgcolor: disabled ? 'action.disabled' : color,
+            transformOrigin: `50% ${KNOB_SIZE / 2 - 4}px`,
+            transform: `rotate(${pan * MAX_ANGLE}deg)`,
+          }}
+        />
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default PanKnob;
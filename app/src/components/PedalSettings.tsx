@@ -0,0 +1,109 @@
+import {
+  Box,
+  Button,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { RestartAlt } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { PEDAL_ACTIONS, PEDAL_GESTURES, PEDAL_KEYS, getPedalAction } from '../utils/pedal';
+import { formatBinding } from '../utils/shortcuts';
+import type { PedalAction, PedalGesture } from '../types/audio';
+
+// Keys written out so i18next-parser keeps them on extract
+const GESTURE_LABELS: Record<PedalGesture, (t: TFunction) => string> = {
+  press: t => t('pedal.gestures.press'),
+  longPress: t => t('pedal.gestures.longPress'),
+  doublePress: t => t('pedal.gestures.doublePress'),
+};
+
+const ACTION_LABELS: Record<PedalAction, (t: TFunction) => string> = {
+  playPause: t => t('pedal.actions.playPause'),
+  restartLoop: t => t('pedal.actions.restartLoop'),
+  toggleLoop: t => t('pedal.actions.toggleLoop'),
+  nextLoop: t => t('pedal.actions.nextLoop'),
+  previousLoop: t => t('pedal.actions.previousLoop'),
+  addMarker: t => t('pedal.actions.addMarker'),
+  quickLoop: t => t('pedal.actions.quickLoop'),
+  rewind: t => t('pedal.actions.rewind'),
+  forward: t => t('pedal.actions.forward'),
+};
+
+/**
+ * Pedal map editor: an action for each key and gesture
+ */
+const PedalSettings = () => {
+  const { t } = useTranslation();
+  const pedalOverrides = useAudioStore(state => state.pedalOverrides);
+  const setPedalAction = useAudioStore(state => state.setPedalAction);
+  const resetPedalMap = useAudioStore(state => state.resetPedalMap);
+
+  return (
+    <Box sx={{ px: 3, pb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+          {t('pedal.hint')}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<RestartAlt fontSize="small" />}
+          disabled={Object.keys(pedalOverrides).length === 0}
+          onClick={resetPedalMap}
+        >
+          {t('pedal.reset')}
+        </Button>
+      </Box>
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('pedal.key')}</TableCell>
+            {PEDAL_GESTURES.map(gesture => (
+              <TableCell key={gesture}>{GESTURE_LABELS[gesture](t)}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {PEDAL_KEYS.map(key => (
+            <TableRow key={key}>
+              <TableCell sx={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+                {formatBinding(key)}
+              </TableCell>
+              {PEDAL_GESTURES.map(gesture => (
+                <TableCell key={gesture}>
+                  <TextField
+                    select
+                    size="small"
+                    variant="standard"
+                    fullWidth
+                    value={getPedalAction(pedalOverrides, key, gesture) ?? ''}
+                    onChange={(e) => setPedalAction(key, gesture, (e.target.value || null) as PedalAction | null)}
+                  >
+                    <MenuItem value="">
+                      <em>{t('pedal.none')}</em>
+                    </MenuItem>
+                    {PEDAL_ACTIONS.map(action => (
+                      <MenuItem key={action} value={action}>
+                        {ACTION_LABELS[action](t)}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default PedalSettings;
@@ -10,27 +10,54 @@ import {
 } from '@mui/material';
 import { Close } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { eventToBinding, resolveShortcuts } from '../utils/shortcuts';
 
 interface PlaybackSpeedDrawerProps {
   open: boolean;
   currentRate: number;
+  pitchSemitones: number;
+  pitchCents: number;
   onClose: () => void;
   onRateChange: (rate: number) => void;
+  onPitchChange: (semitones: number, cents: number) => void;
 }
 
 const SLOW_SPEEDS = [0.5, 0.7, 0.8, 0.9];
 const NORMAL_SPEED = [1.0];
 const FAST_SPEEDS = [1.1, 1.25, 1.5, 2.0];
 
-const PlaybackSpeedDrawer = ({ open, currentRate, onClose, onRateChange }: PlaybackSpeedDrawerProps) => {
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const PlaybackSpeedDrawer = ({
+  open,
+  currentRate,
+  pitchSemitones,
+  pitchCents,
+  onClose,
+  onRateChange,
+  onPitchChange,
+}: PlaybackSpeedDrawerProps) => {
   const { t } = useTranslation();
+  const playPauseBinding = useAudioStore(state => resolveShortcuts(state.shortcutOverrides).playPause);
   const [customRate, setCustomRate] = useState(currentRate);
 
+  // The play/pause key stays with the drawer's controls instead of toggling playback
+  const isPlayPauseKey = (e: React.KeyboardEvent) => eventToBinding(e.nativeEvent) === playPauseBinding;
+  const [semitones, setSemitones] = useState(pitchSemitones);
+  const [cents, setCents] = useState(pitchCents);
+
   // Sync with current rate when it changes
   useEffect(() => {
     setCustomRate(currentRate);
   }, [currentRate]);
 
+  // Sync with current pitch when it changes (e.g. piece loaded)
+  useEffect(() => {
+    setSemitones(pitchSemitones);
+    setCents(pitchCents);
+  }, [pitchSemitones, pitchCents]);
+
   const handlePresetClick = (rate: number) => {
     onRateChange(rate);
     setCustomRate(rate);
@@ -53,7 +80,7 @@ const PlaybackSpeedDrawer = ({ open, currentRate, onClose, onRateChange }: Playb
       open={open}
       onClose={onClose}
       onKeyDown={(e) => {
-        if (e.key === ' ') {
+        if (isPlayPauseKey(e)) {
           e.preventDefault();
           e.stopPropagation();
         } else if (e.key === 'Escape') {
@@ -72,7 +99,7 @@ const PlaybackSpeedDrawer = ({ open, currentRate, onClose, onRateChange }: Playb
         sx={{ width: '100%', p: 3 }} 
         role="presentation"
         onKeyDown={(e) => {
-          if (e.key === ' ') {
+          if (isPlayPauseKey(e)) {
             e.preventDefault();
             e.stopPropagation();
           }
@@ -106,6 +133,54 @@ const PlaybackSpeedDrawer = ({ open, currentRate, onClose, onRateChange }: Playb
           />
         </Box>
 
+        {/* Pitch (transposition, tempo unchanged) */}
+        <Box sx={{ mb: 3, px: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {t('speed.pitch')}: {formatSigned(semitones)} {t('speed.semitones')}
+              {cents !== 0 && ` ${formatSigned(cents)} ${t('speed.cents')}`}
+            </Typography>
+            <Button
+              size="small"
+              onClick={() => onPitchChange(0, 0)}
+              disabled={pitchSemitones === 0 && pitchCents === 0}
+              sx={{ textTransform: 'none' }}
+            >
+              {t('speed.resetPitch')}
+            </Button>
+          </Box>
+          <Slider
+            value={semitones}
+            onChange={(_, value) => setSemitones(value as number)}
+            onChangeCommitted={(_, value) => onPitchChange(value as number, cents)}
+            min={-12}
+            max={12}
+            step={1}
+            marks={[
+              { value: -12, label: '-12' },
+              { value: 0, label: '0' },
+              { value: 12, label: '+12' },
+            ]}
+            valueLabelDisplay="auto"
+            valueLabelFormat={formatSigned}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {t('speed.fineTune')}
+          </Typography>
+          <Slider
+            value={cents}
+            onChange={(_, value) => setCents(value as number)}
+            onChangeCommitted={(_, value) => onPitchChange(semitones, value as number)}
+            min={-50}
+            max={50}
+            step={1}
+            size="small"
+            marks={[{ value: 0 }]}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `${formatSigned(value)} ct`}
+          />
+        </Box>
+
         {/* Preset speeds in three columns */}
         <Typography variant="subtitle2" color="text.secondary" gutterBottom>
           {t('speed.presets')}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { LoopPreRoll } from '../types/audio';
+import { DEFAULT_LOOP_PRE_ROLL } from '../hooks/audioStore/shared';
+
+interface PreRollDialogProps {
+  open: boolean;
+  preRoll?: LoopPreRoll;
+  onClose: () => void;
+  onSave: (preRoll: LoopPreRoll) => void;
+}
+
+/**
+ * Settings of the run-up played before one loop's start marker
+ */
+const PreRollDialog = ({ open, preRoll, onClose, onSave }: PreRollDialogProps) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<LoopPreRoll>({
+    ...DEFAULT_LOOP_PRE_ROLL,
+    ...preRoll,
+    enabled: preRoll?.enabled ?? true, // Opening the dialog means the user wants to use it
+  });
+
+  const update = (updates: Partial<LoopPreRoll>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('preRoll.title')}</DialogTitle>
+      <DialogContent>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={draft.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+          }
+          label={t('preRoll.enabled')}
+        />
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            label={t('preRoll.amount')}
+            type="number"
+            size="small"
+            value={draft.amount}
+            disabled={!draft.enabled}
+            onChange={(e) => {
+              const amount = parseFloat(e.target.value);
+              if (amount > 0) update({ amount });
+            }}
+            slotProps={{ htmlInput: { min: draft.unit === 'beats' ? 1 : 0.5, step: draft.unit === 'beats' ? 1 : 0.5 } }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            select
+            label={t('preRoll.unit')}
+            size="small"
+            value={draft.unit}
+            disabled={!draft.enabled}
+            onChange={(e) => update({ unit: e.target.value as LoopPreRoll['unit'] })}
+            sx={{ flex: 1 }}
+          >
+            <MenuItem value="beats">{t('preRoll.beats')}</MenuItem>
+            <MenuItem value="seconds">{t('preRoll.seconds')}</MenuItem>
+          </TextField>
+        </Box>
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', mt: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.everyPass}
+                disabled={!draft.enabled}
+                onChange={(e) => update({ everyPass: e.target.checked })}
+              />
+            }
+            label={t('preRoll.everyPass')}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.countIn}
+                disabled={!draft.enabled}
+                onChange={(e) => update({ countIn: e.target.checked })}
+              />
+            }
+            label={t('preRoll.countIn')}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('preRoll.cancel')}</Button>
+        <Button
+          variant="contained"
+          onClick={() => {
+            onSave(draft);
+            onClose();
+          }}
+        >
+          {t('preRoll.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PreRollDialog;
@@ -2,7 +2,8 @@ import { useEffect, useRef, useState } from 'react';
 import { Box, Typography } from '@mui/material';
 import WaveSurfer from 'wavesurfer.js';
 import RecordPlugin from 'wavesurfer.js/dist/plugins/record.esm.js';
-import { useAudioStore, wavesurferInstances } from '../hooks/useAudioStore';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { getEngineTime, isEngineRunning } from '../hooks/audioStore/engine';
 import { addSilencePadding, formatRecordingTime } from '../utils/audioUtils';
 import { getBestRecordingConfig, logSupportedFormats } from '../utils/recordingConfig';
 import { useTranslation } from 'react-i18next';
@@ -66,13 +67,11 @@ const RecordableWaveform = ({ track }: RecordableWaveformProps) => {
 
     // Handle recording START (precise timing)
     record.on('record-start', () => {
-      // Get ACTUAL current time from a playing WaveSurfer instance (not this recording one)
+      // Get ACTUAL current time from the playback engine clock
       let actualStartTime = track.recordingStartOffset || 0; // fallback
       
-      const playingInstances = Array.from(wavesurferInstances.values());
-      if (playingInstances.length > 0) {
-        // Use first playing instance for accurate time
-        actualStartTime = playingInstances[0].getCurrentTime();
+      if (isEngineRunning()) {
+        actualStartTime = getEngineTime();
       }
       
       recordingStartTimeRef.current = actualStartTime;
@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add,
+  ArrowDownward,
+  ArrowUpward,
+  CameraAlt,
+  Delete,
+  Edit,
+  FileDownload,
+  PlayArrow,
+  Stop,
+} from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import { getMarkerName } from '../hooks/audioStore/shared';
+import type { Routine, RoutineStep } from '../types/audio';
+
+interface RoutinesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Same range as the speed drawer
+const MIN_RATE = 0.5;
+const MAX_RATE = 2;
+
+const newStepId = () => `step-${Date.now()}-${Math.random()}`;
+
+/**
+ * Practice routines of the current piece: list, editor, run and export
+ * Each step plays a loop (or the whole piece) N times at its own speed and mute/solo mix
+ */
+const RoutinesDialog = ({ open, onClose }: RoutinesDialogProps) => {
+  const { t } = useTranslation();
+  const {
+    routines,
+    routineProgress,
+    loopState,
+    tracks,
+    playbackState,
+    currentPieceId,
+    currentPieceName,
+    saveRoutine,
+    deleteRoutine,
+    startRoutine,
+    stopRoutine,
+  } = useAudioStore();
+  // Routine being edited (a copy, saved explicitly)
+  const [draft, setDraft] = useState<Routine | null>(null);
+
+  const markerTime = (markerId: string) => loopState.markers.find(m => m.id === markerId)?.time ?? null;
+
+  const loopLabel = (loopId: string | null) => {
+    if (!loopId) return t('routines.fullTake');
+    const loop = loopState.loops.find(l => l.id === loopId);
+    return loop
+      ? `${getMarkerName(loopState.markers, loop.startMarkerId)} → ${getMarkerName(loopState.markers, loop.endMarkerId)}`
+      : t('routines.missingLoop');
+  };
+
+  // Current mute/solo state of every track
+  const captureMix = () => Object.fromEntries(
+    tracks.map(track => [track.id, { isMuted: track.isMuted, isSolo: track.isSolo }])
+  );
+
+  const handleNew = () => {
+    if (!currentPieceId) return;
+    setDraft({
+      id: `routine-${Date.now()}-${Math.random()}`,
+      pieceId: currentPieceId,
+      name: t('routines.defaultName', { number: routines.length + 1 }),
+      steps: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  };
+
+  const updateStep = (index: number, updates: Partial<RoutineStep>) => {
+    setDraft(current => current && {
+      ...current,
+      steps: current.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)),
+    });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setDraft(current => {
+      if (!current) return current;
+      const steps = [...current.steps];
+      const [step] = steps.splice(index, 1);
+      steps.splice(index + direction, 0, step);
+      return { ...current, steps };
+    });
+  };
+
+  const addStep = () => {
+    setDraft(current => current && {
+      ...current,
+      steps: [
+        ...current.steps,
+        {
+          id: newStepId(),
+          loopId: loopState.loops[0]?.id ?? null,
+          repeatCount: 4,
+          playbackRate: playbackState.playbackRate,
+        },
+      ],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await saveRoutine({
+        ...draft,
+        name: draft.name.trim(),
+        steps: draft.steps.map(step => ({
+          ...step,
+          playbackRate: Math.max(MIN_RATE, Math.min(MAX_RATE, step.playbackRate)),
+        })),
+      });
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to save routine:', err);
+    }
+  };
+
+  const handleExport = (routine: Routine) => {
+    // Loop times are included so the routine stays readable outside this piece
+    const data = {
+      piece: currentPieceName,
+      name: routine.name,
+      steps: routine.steps.map(step => {
+        const loop = loopState.loops.find(l => l.id === step.loopId);
+        return {
+          loop: loop ? { start: markerTime(loop.startMarkerId), end: markerTime(loop.endMarkerId) } : null,
+          repeatCount: step.repeatCount,
+          playbackRate: step.playbackRate,
+          mix: step.mix
+            ? Object.entries(step.mix).map(([trackId, state]) => ({
+                track: tracks.find(track => track.id === trackId)?.name ?? trackId,
+                ...state,
+              }))
+            : null,
+        };
+      }),
+    };
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${currentPieceName ? `${currentPieceName} - ` : ''}${routine.name}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRun = (id: string) => {
+    startRoutine(id);
+    onClose();
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{draft ? t('routines.editTitle') : t('routines.title')}</DialogTitle>
+      <DialogContent>
+        {!draft && (
+          <>
+            <DialogContentText sx={{ mb: 1 }}>{t('routines.description')}</DialogContentText>
+            {routines.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {t('routines.empty')}
+              </Typography>
+            ) : (
+              <List dense>
+                {routines.map((routine) => {
+                  const isRunning = routineProgress?.routineId === routine.id;
+                  return (
+                    <ListItem
+                      key={routine.id}
+                      secondaryAction={
+                        <Box>
+                          <Tooltip title={isRunning ? t('routines.stop') : t('routines.run')}>
+                            <span>
+                              <IconButton
+                                size="small"
+                                disabled={!isRunning && routine.steps.length === 0}
+                                onClick={() => (isRunning ? stopRoutine() : handleRun(routine.id))}
+                              >
+                                {isRunning ? <Stop fontSize="small" /> : <PlayArrow fontSize="small" />}
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title={t('routines.edit')}>
+                            <IconButton size="small" onClick={() => setDraft(routine)}>
+                              <Edit fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={t('routines.export')}>
+                            <IconButton size="small" onClick={() => handleExport(routine)}>
+                              <FileDownload fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={t('routines.delete')}>
+                            <IconButton
+                              size="small"
+                              onClick={() => deleteRoutine(routine.id).catch(err => console.error('Failed to delete routine:', err))}
+                            >
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </Box>
+                      }
+                    >
+                      <ListItemText
+                        primary={routine.name}
+                        secondary={routine.steps
+                          .map(step => `${loopLabel(step.loopId)}${step.loopId ? ` ×${step.repeatCount}` : ''} @ ${Math.round(step.playbackRate * 100)}%`)
+                          .join(' · ')}
+                      />
+                    </ListItem>
+                  );
+                })}
+              </List>
+            )}
+          </>
+        )}
+
+        {draft && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label={t('routines.name')}
+              size="small"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+
+            {draft.steps.map((step, index) => (
+              <Paper key={step.id} variant="outlined" sx={{ p: 1.5 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                  <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                    {t('routines.step', { number: index + 1 })}
+                  </Typography>
+                  <IconButton size="small" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    <ArrowUpward fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" disabled={index === draft.steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    <ArrowDownward fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={() => setDraft({ ...draft, steps: draft.steps.filter(s => s.id !== step.id) })}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <TextField
+                    select
+                    label={t('routines.loop')}
+                    size="small"
+                    value={step.loopId ?? ''}
+                    onChange={(e) => updateStep(index, { loopId: e.target.value || null })}
+                    sx={{ flex: 2, minWidth: 140 }}
+                  >
+                    {loopState.loops.map(loop => (
+                      <MenuItem key={loop.id} value={loop.id}>{loopLabel(loop.id)}</MenuItem>
+                    ))}
+                    <MenuItem value="">{t('routines.fullTake')}</MenuItem>
+                  </TextField>
+                  <TextField
+                    label={t('routines.repeatCount')}
+                    type="number"
+                    size="small"
+                    value={step.repeatCount}
+                    disabled={!step.loopId}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (value >= 1) updateStep(index, { repeatCount: value });
+                    }}
+                    slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                    sx={{ flex: 1, minWidth: 80 }}
+                  />
+                  <TextField
+                    label={t('routines.speed')}
+                    type="number"
+                    size="small"
+                    value={Math.round(step.playbackRate * 100)}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (value > 0) updateStep(index, { playbackRate: value / 100 });
+                    }}
+                    slotProps={{ htmlInput: { min: MIN_RATE * 100, max: MAX_RATE * 100, step: 5 } }}
+                    sx={{ flex: 1, minWidth: 80 }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                    {step.mix
+                      ? t('routines.mixSnapshot', {
+                          muted: Object.values(step.mix).filter(s => s.isMuted).length,
+                          solo: Object.values(step.mix).filter(s => s.isSolo).length,
+                        })
+                      : t('routines.mixCurrent')}
+                  </Typography>
+                  <Button size="small" startIcon={<CameraAlt fontSize="small" />} onClick={() => updateStep(index, { mix: captureMix() })}>
+                    {t('routines.captureMix')}
+                  </Button>
+                  {step.mix && (
+                    <Button size="small" onClick={() => updateStep(index, { mix: undefined })}>
+                      {t('routines.clearMix')}
+                    </Button>
+                  )}
+                </Box>
+              </Paper>
+            ))}
+
+            <Button startIcon={<Add />} onClick={addStep} sx={{ alignSelf: 'flex-start' }}>
+              {t('routines.addStep')}
+            </Button>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {draft ? (
+          <>
+            <Button onClick={() => setDraft(null)}>{t('routines.cancel')}</Button>
+            <Button variant="contained" disabled={!draft.name.trim()} onClick={handleSave}>
+              {t('routines.save')}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button startIcon={<Add />} disabled={!currentPieceId} onClick={handleNew}>
+              {t('routines.new')}
+            </Button>
+            <Button onClick={handleClose}>{t('routines.close')}</Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RoutinesDialog;
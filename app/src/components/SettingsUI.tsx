@@ -1,4 +1,6 @@
+import { useState } from 'react';
 import {
+  Collapse,
   Dialog,
   DialogTitle,
   DialogContent,
@@ -6,14 +8,17 @@ import {
   List,
   ListItem,
   ListItemText,
+  Slider,
   Switch,
   Typography,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
-import { Close, GraphicEq, Timeline, PhotoSizeSelectSmall, Equalizer } from '@mui/icons-material';
+import { Close, GraphicEq, Timeline, PhotoSizeSelectSmall, Equalizer, BugReport, SyncAlt, Gradient, Keyboard, ExpandLess, ExpandMore, SettingsRemote } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { useAudioStore } from '../hooks/useAudioStore';
+import ShortcutSettings from './ShortcutSettings';
+import PedalSettings from './PedalSettings';
 
 interface SettingsUIProps {
   open: boolean;
@@ -33,6 +38,15 @@ export default function SettingsUI({ open, onClose }: SettingsUIProps) {
   const setWaveformTimeline = useAudioStore(state => state.setWaveformTimeline);
   const waveformMinimap = useAudioStore(state => state.waveformMinimap);
   const setWaveformMinimap = useAudioStore(state => state.setWaveformMinimap);
+  const cursorLagThreshold = useAudioStore(state => state.cursorLagThreshold);
+  const setCursorLagThreshold = useAudioStore(state => state.setCursorLagThreshold);
+  const showCursorLagOverlay = useAudioStore(state => state.showCursorLagOverlay);
+  const setShowCursorLagOverlay = useAudioStore(state => state.setShowCursorLagOverlay);
+  const gainRampTime = useAudioStore(state => state.gainRampTime);
+  const setGainRampTime = useAudioStore(state => state.setGainRampTime);
+  const pedalMode = useAudioStore(state => state.pedalMode);
+  const setPedalMode = useAudioStore(state => state.setPedalMode);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
 
   return (
     <Dialog
@@ -176,6 +190,168 @@ export default function SettingsUI({ open, onClose }: SettingsUIProps) {
               onChange={(e) => setWaveformMinimap(e.target.checked)}
             />
           </ListItem>
+
+          {/* Cursor lag threshold */}
+          <ListItem
+            sx={{
+              py: 2,
+              px: 3,
+              '&:hover': {
+                bgcolor: 'action.hover'
+              }
+            }}
+          >
+            <SyncAlt sx={{ mr: 2, color: 'text.secondary' }} />
+            <ListItemText
+              primary={
+                <Typography variant="body1" fontWeight={500}>
+                  {t('settings.cursorLagThreshold.title')}
+                </Typography>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('settings.cursorLagThreshold.description')}
+                </Typography>
+              }
+            />
+            <Slider
+              value={cursorLagThreshold}
+              onChange={(_, value) => setCursorLagThreshold(value as number)}
+              min={10}
+              max={200}
+              step={10}
+              valueLabelDisplay="auto"
+              sx={{ width: 120, ml: 2 }}
+            />
+          </ListItem>
+
+          {/* Gain smoothing */}
+          <ListItem
+            sx={{
+              py: 2,
+              px: 3,
+              '&:hover': {
+                bgcolor: 'action.hover'
+              }
+            }}
+          >
+            <Gradient sx={{ mr: 2, color: 'text.secondary' }} />
+            <ListItemText
+              primary={
+                <Typography variant="body1" fontWeight={500}>
+                  {t('settings.gainRamp.title')}
+                </Typography>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('settings.gainRamp.description')}
+                </Typography>
+              }
+            />
+            <Slider
+              value={gainRampTime}
+              onChange={(_, value) => setGainRampTime(value as number)}
+              min={0}
+              max={100}
+              step={5}
+              valueLabelDisplay="auto"
+              sx={{ width: 120, ml: 2 }}
+            />
+          </ListItem>
+
+          {/* Cursor lag debug overlay */}
+          <ListItem
+            sx={{
+              py: 2,
+              px: 3,
+              '&:hover': {
+                bgcolor: 'action.hover'
+              }
+            }}
+          >
+            <BugReport sx={{ mr: 2, color: 'text.secondary' }} />
+            <ListItemText
+              primary={
+                <Typography variant="body1" fontWeight={500}>
+                  {t('settings.cursorLagOverlay.title')}
+                </Typography>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('settings.cursorLagOverlay.description')}
+                </Typography>
+              }
+            />
+            <Switch
+              edge="end"
+              checked={showCursorLagOverlay}
+              onChange={(e) => setShowCursorLagOverlay(e.target.checked)}
+            />
+          </ListItem>
+
+          {/* Pedal mode */}
+          <ListItem
+            sx={{
+              py: 2,
+              px: 3,
+              '&:hover': {
+                bgcolor: 'action.hover'
+              }
+            }}
+          >
+            <SettingsRemote sx={{ mr: 2, color: 'text.secondary' }} />
+            <ListItemText
+              primary={
+                <Typography variant="body1" fontWeight={500}>
+                  {t('settings.pedal.title')}
+                </Typography>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('settings.pedal.description')}
+                </Typography>
+              }
+            />
+            <Switch
+              edge="end"
+              checked={pedalMode}
+              onChange={(e) => setPedalMode(e.target.checked)}
+            />
+          </ListItem>
+          <Collapse in={pedalMode} unmountOnExit>
+            <PedalSettings />
+          </Collapse>
+
+          {/* Keyboard shortcuts */}
+          <ListItem
+            sx={{
+              py: 2,
+              px: 3,
+              cursor: 'pointer',
+              '&:hover': {
+                bgcolor: 'action.hover'
+              }
+            }}
+            onClick={() => setShortcutsOpen(!shortcutsOpen)}
+          >
+            <Keyboard sx={{ mr: 2, color: 'text.secondary' }} />
+            <ListItemText
+              primary={
+                <Typography variant="body1" fontWeight={500}>
+                  {t('settings.shortcuts.title')}
+                </Typography>
+              }
+              secondary={
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {t('settings.shortcuts.description')}
+                </Typography>
+              }
+            />
+            {shortcutsOpen ? <ExpandLess /> : <ExpandMore />}
+          </ListItem>
+          <Collapse in={shortcutsOpen} unmountOnExit>
+            <ShortcutSettings />
+          </Collapse>
         </List>
       </DialogContent>
     </Dialog>
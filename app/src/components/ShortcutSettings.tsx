@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  ListSubheader,
+  Tooltip,
+} from '@mui/material';
+import { Backspace, RestartAlt } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+import {
+  SHORTCUT_ACTIONS,
+  SHORTCUT_GROUPS,
+  eventToBinding,
+  findShortcutConflict,
+  formatBinding,
+  resolveShortcuts,
+  type ShortcutAction,
+} from '../utils/shortcuts';
+import { shortcutActionLabel, shortcutGroupLabel } from '../i18n/shortcutLabels';
+
+/**
+ * Key map editor: click a shortcut, then press the new key
+ * A key already in use asks before moving it to the new action
+ */
+const ShortcutSettings = () => {
+  const { t } = useTranslation();
+  const shortcutOverrides = useAudioStore(state => state.shortcutOverrides);
+  const setShortcut = useAudioStore(state => state.setShortcut);
+  const resetShortcuts = useAudioStore(state => state.resetShortcuts);
+  // Action waiting for its new key
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  // New key already used by another action
+  const [conflict, setConflict] = useState<{ actionId: string; binding: string; other: ShortcutAction } | null>(null);
+
+  const bindings = resolveShortcuts(shortcutOverrides);
+  const actionLabel = (action: ShortcutAction) => shortcutActionLabel(t, action);
+
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Captured before the global shortcuts (and the dialog's Escape)
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.code === 'Escape' && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+        setRecordingId(null);
+        return;
+      }
+
+      const binding = eventToBinding(e);
+      if (!binding) return;
+
+      const other = findShortcutConflict(resolveShortcuts(shortcutOverrides), recordingId, binding);
+      if (other) {
+        setConflict({ actionId: recordingId, binding, other });
+      } else {
+        setShortcut(recordingId, binding);
+      }
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, shortcutOverrides, setShortcut]);
+
+  return (
+    <Box sx={{ px: 3, pb: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <Button
+          size="small"
+          startIcon={<RestartAlt fontSize="small" />}
+          disabled={Object.keys(shortcutOverrides).length === 0}
+          onClick={() => {
+            resetShortcuts();
+            setConflict(null);
+          }}
+        >
+          {t('shortcuts.resetAll')}
+        </Button>
+      </Box>
+
+      {conflict && (
+        <Alert
+          severity="warning"
+          sx={{ my: 1 }}
+          action={
+            <>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => {
+                  setShortcut(conflict.actionId, conflict.binding);
+                  setConflict(null);
+                }}
+              >
+                {t('shortcuts.replace')}
+              </Button>
+              <Button color="inherit" size="small" onClick={() => setConflict(null)}>
+                {t('shortcuts.cancel')}
+              </Button>
+            </>
+          }
+        >
+          {t('shortcuts.conflict', {
+            binding: formatBinding(conflict.binding),
+            action: actionLabel(conflict.other),
+          })}
+        </Alert>
+      )}
+
+      <List dense disablePadding>
+        {SHORTCUT_GROUPS.map(group => (
+          <li key={group}>
+            <ul style={{ padding: 0 }}>
+              <ListSubheader disableGutters sx={{ bgcolor: 'background.paper' }}>
+                {shortcutGroupLabel(t, group)}
+              </ListSubheader>
+              {SHORTCUT_ACTIONS.filter(action => action.group === group).map(action => {
+                const binding = bindings[action.id];
+                const isRecording = recordingId === action.id;
+                return (
+                  <ListItem
+                    key={action.id}
+                    disableGutters
+                    secondaryAction={
+                      <Tooltip title={t('shortcuts.clear')}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            disabled={!binding}
+                            onClick={() => setShortcut(action.id, null)}
+                          >
+                            <Backspace fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText primary={actionLabel(action)} />
+                    <Chip
+                      size="small"
+                      label={isRecording
+                        ? t('shortcuts.pressKey')
+                        : binding ? formatBinding(binding) : t('shortcuts.unbound')}
+                      color={isRecording ? 'primary' : 'default'}
+                      variant={binding || isRecording ? 'filled' : 'outlined'}
+                      onClick={(e) => {
+                        // Keyboard focus would turn the next Space/Enter into a click
+                        e.currentTarget.blur();
+                        setConflict(null);
+                        setRecordingId(isRecording ? null : action.id);
+                      }}
+                      sx={{ mr: 2, minWidth: 72, fontFamily: 'monospace' }}
+                    />
+                  </ListItem>
+                );
+              })}
+            </ul>
+          </li>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default ShortcutSettings;
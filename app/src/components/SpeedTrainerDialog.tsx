@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Slider,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { SpeedTrainer } from '../types/audio';
+import { DEFAULT_SPEED_TRAINER } from '../hooks/audioStore/shared';
+
+interface SpeedTrainerDialogProps {
+  open: boolean;
+  speedTrainer?: SpeedTrainer;
+  onClose: () => void;
+  onSave: (speedTrainer: SpeedTrainer) => void;
+}
+
+/**
+ * Settings of the progressive tempo ramp of one loop
+ */
+const SpeedTrainerDialog = ({ open, speedTrainer, onClose, onSave }: SpeedTrainerDialogProps) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<SpeedTrainer>({
+    ...DEFAULT_SPEED_TRAINER,
+    ...speedTrainer,
+    enabled: speedTrainer?.enabled ?? true, // Opening the dialog means the user wants to use it
+  });
+
+  const update = (updates: Partial<SpeedTrainer>) => {
+    setDraft((current) => ({ ...current, ...updates }));
+  };
+
+  const steps = Math.max(0, Math.ceil((draft.targetRate - draft.startRate) / draft.increment - 1e-6));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('speedTrainer.title')}</DialogTitle>
+      <DialogContent>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={draft.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+          }
+          label={t('speedTrainer.enabled')}
+        />
+
+        <Box sx={{ mt: 2, px: 1 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            {t('speedTrainer.range')}: {Math.round(draft.startRate * 100)}% → {Math.round(draft.targetRate * 100)}%
+          </Typography>
+          <Slider
+            value={[draft.startRate * 100, draft.targetRate * 100]}
+            onChange={(_, value) => {
+              const [start, target] = value as number[];
+              update({ startRate: start / 100, targetRate: target / 100 });
+            }}
+            min={30}
+            max={150}
+            step={5}
+            disableSwap
+            marks={[{ value: 100, label: '100%' }]}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `${value}%`}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            label={t('speedTrainer.increment')}
+            type="number"
+            size="small"
+            value={Math.round(draft.increment * 100)}
+            onChange={(e) => {
+              const percent = parseInt(e.target.value, 10);
+              if (percent > 0) update({ increment: percent / 100 });
+            }}
+            slotProps={{ htmlInput: { min: 1, max: 50, step: 1 } }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label={t('speedTrainer.cleanReps')}
+            type="number"
+            size="small"
+            value={draft.cleanReps}
+            onChange={(e) => {
+              const reps = parseInt(e.target.value, 10);
+              if (reps > 0) update({ cleanReps: reps });
+            }}
+            slotProps={{ htmlInput: { min: 1, max: 20, step: 1 } }}
+            sx={{ flex: 1 }}
+          />
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          {t('speedTrainer.summary', { steps, reps: draft.cleanReps })}
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('speedTrainer.cancel')}</Button>
+        <Button
+          variant="contained"
+          onClick={() => {
+            onSave(draft);
+            onClose();
+          }}
+        >
+          {t('speedTrainer.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SpeedTrainerDialog;
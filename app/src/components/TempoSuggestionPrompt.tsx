@@ -0,0 +1,44 @@
+import { Button, Snackbar, Alert } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { useAudioStore } from '../hooks/useAudioStore';
+
+/**
+ * Offers the tempo/downbeat detected on an imported track as the piece's beat grid
+ */
+export function TempoSuggestionPrompt() {
+  const { t } = useTranslation();
+  const tempoSuggestion = useAudioStore(state => state.tempoSuggestion);
+  const applyTempoSuggestion = useAudioStore(state => state.applyTempoSuggestion);
+  const dismissTempoSuggestion = useAudioStore(state => state.dismissTempoSuggestion);
+
+  if (!tempoSuggestion) return null;
+
+  return (
+    <Snackbar
+      open
+      onClose={(_, reason) => {
+        // Keep the offer visible until the user answers
+        if (reason !== 'clickaway') dismissTempoSuggestion();
+      }}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      sx={{ mb: 8 }}
+    >
+      <Alert
+        onClose={dismissTempoSuggestion}
+        severity="info"
+        sx={{ width: '100%' }}
+        action={
+          <Button color="inherit" size="small" onClick={applyTempoSuggestion}>
+            {t('metronome.detected.apply')}
+          </Button>
+        }
+      >
+        {t('metronome.detected.message', {
+          bpm: tempoSuggestion.bpm,
+          offset: tempoSuggestion.downbeatOffset.toFixed(2),
+          confidence: Math.round(tempoSuggestion.confidence * 100),
+        })}
+      </Alert>
+    </Snackbar>
+  );
+}
@@ -0,0 +1,113 @@
+import {useRef, useState} from 'react';
+import {Box, TextField, Tooltip} from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import {useTranslation} from 'react-i18next';
+import {useAudioStore} from '../hooks/useAudioStore';
+import {useThrottle} from '../hooks/useThrottle';
+
+interface TimeOffsetControlProps {
+  trackId: string;
+  timeOffset: number; // Seconds
+}
+
+const MS_PER_PIXEL = 1;
+const MS_PER_PIXEL_FAST = 10; // With Shift held
+const MAX_OFFSET_MS = 60000;
+
+const clampMs = (ms: number) => Math.max(-MAX_OFFSET_MS, Math.min(MAX_OFFSET_MS, Math.round(ms)));
+
+/**
+ * Track header nudge: drag the handle sideways or type a value (ms), double-click to reset
+ */
+const TimeOffsetControl = ({ trackId, timeOffset }: TimeOffsetControlProps) => {
+  const { t } = useTranslation();
+  const setTrackOffset = useAudioStore(state => state.setTrackOffset);
+
+  const dragRef = useRef<{ startX: number; startMs: number } | null>(null);
+  // Drag value when dragging, otherwise sync with the track
+  const [dragMs, setDragMs] = useState<number | null>(null);
+  // Text field is edited locally and committed on blur/Enter
+  const [input, setInput] = useState<string | null>(null);
+
+  const offsetMs = dragMs ?? Math.round(timeOffset * 1000);
+
+  const throttledSetOffset = useThrottle((ms: number) => {
+    setTrackOffset(trackId, ms / 1000);
+  }, 50);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startMs: offsetMs };
+    setDragMs(offsetMs);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const step = e.shiftKey ? MS_PER_PIXEL_FAST : MS_PER_PIXEL;
+    const next = clampMs(dragRef.current.startMs + (e.clientX - dragRef.current.startX) * step);
+    setDragMs(next);
+    throttledSetOffset(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (dragMs !== null) setTrackOffset(trackId, dragMs / 1000);
+    setDragMs(null);
+  };
+
+  const commitInput = () => {
+    if (input === null) return;
+    const ms = parseFloat(input);
+    if (!isNaN(ms)) {
+      setTrackOffset(trackId, clampMs(ms) / 1000);
+    }
+    setInput(null);
+  };
+
+  return (
+    <Box display="flex" alignItems="center" gap={0.25}>
+      <Tooltip title={t('track.offsetHint')}>
+        <Box
+          role="button"
+          aria-label={t('track.offset')}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => setTrackOffset(trackId, 0)}
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            cursor: 'ew-resize',
+            touchAction: 'none',
+            color: offsetMs !== 0 ? 'primary.main' : 'text.secondary',
+            opacity: offsetMs !== 0 ? 1 : 0.6,
+            '&:hover': { opacity: 1 },
+          }}
+        >
+          <SwapHorizIcon fontSize="small" />
+        </Box>
+      </Tooltip>
+      <TextField
+        type="number"
+        size="small"
+        variant="standard"
+        value={input ?? offsetMs}
+        onChange={(e) => setInput(e.target.value)}
+        onBlur={commitInput}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter') commitInput();
+        }}
+        slotProps={{
+          htmlInput: { step: 1, 'aria-label': t('track.offset') },
+          input: { endAdornment: <Box component="span" sx={{ fontSize: 12, color: 'text.secondary', ml: 0.5 }}>ms</Box> },
+        }}
+        sx={{ width: 80 }}
+      />
+    </Box>
+  );
+};
+
+export default TimeOffsetControl;
@@ -12,13 +12,16 @@ import {
   Slider,
   Stack,
   Toolbar,
+  Tooltip,
   Typography,
 } from '@mui/material';
 import {
   Album,
+  AlignHorizontalLeft,
   DarkMode,
   DeleteSweep,
   Edit,
+  FileDownload,
   GraphicEq,
   HelpOutline,
   LightMode,
@@ -28,12 +31,26 @@ import {
   ZoomIn,
   ZoomOut,
   KeyboardArrowDown,
+  PlaylistPlay,
+  GridOn,
+  GridOff,
 } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
 import { StemuxIcon } from './StemuxIcon';
 import { usePlaybackTime } from '../hooks/usePlaybackTime';
 import { useAudioStore } from '../hooks/useAudioStore';
-import type { PieceWithStats } from '../types/audio';
+import type { PieceWithStats, SnapMode } from '../types/audio';
+
+const SNAP_MODES: SnapMode[] = ['off', 'beat', 'bar', 'zeroCrossing'];
+
+// Keys written out so i18next-parser keeps them on extract
+const SNAP_MODE_LABELS: Record<SnapMode, (t: TFunction) => string> = {
+  off: t => t('snap.modes.off'),
+  beat: t => t('snap.modes.beat'),
+  bar: t => t('snap.modes.bar'),
+  zeroCrossing: t => t('snap.modes.zeroCrossing'),
+};
 
 interface TopBarProps {
   hasLoadedTracks: boolean;
@@ -56,6 +73,9 @@ interface TopBarProps {
   onOpenSettings: () => void;
   onOpenDeleteAllDialog: () => void;
   onOpenPiecesManager: () => void;
+  onOpenExportMix: () => void;
+  onOpenAutoAlign: () => void;
+  onOpenRoutines: () => void;
 }
 
 const TopBar = ({
@@ -79,13 +99,17 @@ const TopBar = ({
   onOpenSettings,
   onOpenDeleteAllDialog,
   onOpenPiecesManager,
+  onOpenExportMix,
+  onOpenAutoAlign,
+  onOpenRoutines,
 }: TopBarProps) => {
   const { t } = useTranslation();
   const [menuAnchorEl, setMenuAnchorEl] = useState<null | HTMLElement>(null);
   const [piecesMenuAnchorEl, setPiecesMenuAnchorEl] = useState<null | HTMLElement>(null);
+  const [snapMenuAnchorEl, setSnapMenuAnchorEl] = useState<null | HTMLElement>(null);
   const [recentPieces, setRecentPieces] = useState<PieceWithStats[]>([]);
   
-  const { getRecentPieces, getCurrentPiece, loadPiece, currentPieceName } = useAudioStore();
+  const { getRecentPieces, getCurrentPiece, loadPiece, currentPieceName, snapMode, setSnapMode } = useAudioStore();
 
   // Use live playback time hook (updates every 100ms)
   const currentTime = usePlaybackTime();
@@ -271,6 +295,38 @@ const TopBar = ({
         </IconButton>
 
         <Stack gap={2} direction="row" alignItems="center">
+          {/* Marker snapping (Shift while placing bypasses it) */}
+          <Tooltip title={t('snap.tooltip', { mode: SNAP_MODE_LABELS[snapMode](t) })}>
+            <span>
+              <IconButton
+                color={snapMode !== 'off' ? 'secondary' : 'inherit'}
+                onClick={(e) => setSnapMenuAnchorEl(e.currentTarget)}
+                disabled={!hasLoadedTracks}
+                aria-label={t('snap.title')}
+              >
+                {snapMode !== 'off' ? <GridOn /> : <GridOff />}
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Menu
+            anchorEl={snapMenuAnchorEl}
+            open={Boolean(snapMenuAnchorEl)}
+            onClose={() => setSnapMenuAnchorEl(null)}
+          >
+            {SNAP_MODES.map((mode) => (
+              <MenuItem
+                key={mode}
+                selected={mode === snapMode}
+                onClick={() => {
+                  setSnapMode(mode);
+                  setSnapMenuAnchorEl(null);
+                }}
+              >
+                {SNAP_MODE_LABELS[mode](t)}
+              </MenuItem>
+            ))}
+          </Menu>
+
           {/* Loop v2 Edit Mode button */}
           {isMobile ? (
             <IconButton
@@ -325,6 +381,45 @@ const TopBar = ({
             <ListItemText>{t('menu.pieces')}</ListItemText>
           </MenuItem>
 
+          <MenuItem
+            onClick={() => {
+              setMenuAnchorEl(null);
+              onOpenExportMix();
+            }}
+            disabled={!hasLoadedTracks}
+          >
+            <ListItemIcon>
+              <FileDownload fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>{t('menu.exportMix')}</ListItemText>
+          </MenuItem>
+
+          <MenuItem
+            onClick={() => {
+              setMenuAnchorEl(null);
+              onOpenAutoAlign();
+            }}
+            disabled={!hasLoadedTracks || tracksCount < 2}
+          >
+            <ListItemIcon>
+              <AlignHorizontalLeft fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>{t('menu.autoAlign')}</ListItemText>
+          </MenuItem>
+
+          <MenuItem
+            onClick={() => {
+              setMenuAnchorEl(null);
+              onOpenRoutines();
+            }}
+            disabled={!hasLoadedTracks}
+          >
+            <ListItemIcon>
+              <PlaylistPlay fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>{t('menu.routines')}</ListItemText>
+          </MenuItem>
+
           <MenuItem
             onClick={() => {
               setMenuAnchorEl(null);
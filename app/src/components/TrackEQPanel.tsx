@@ -0,0 +1,141 @@
+import {useState} from 'react';
+import {Box, Button, FormControlLabel, Slider, Stack, Switch, Typography} from '@mui/material';
+import {useTranslation} from 'react-i18next';
+import {useAudioStore} from '../hooks/useAudioStore';
+import {useThrottle} from '../hooks/useThrottle';
+import {DEFAULT_TRACK_EQ} from '../hooks/audioStore/shared';
+import type {AudioTrack, TrackEQ} from '../types/audio';
+
+type EQField = 'lowGain' | 'midGain' | 'highGain' | 'highPassFrequency' | 'lowPassFrequency';
+
+const MAX_GAIN = 12; // dB
+
+// Filter cutoffs are edited on a log scale (slider value = log10 of Hz)
+const HIGH_PASS_RANGE = [20, 500];
+const LOW_PASS_RANGE = [1000, 20000];
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`);
+const formatGain = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+interface TrackEQPanelProps {
+  track: AudioTrack;
+}
+
+/**
+ * Expandable tone section of a track: 3-band EQ plus high-pass/low-pass filters
+ */
+const TrackEQPanel = ({ track }: TrackEQPanelProps) => {
+  const { t } = useTranslation();
+  const setTrackEQ = useAudioStore(state => state.setTrackEQ);
+  const eq = { ...DEFAULT_TRACK_EQ, ...track.eq };
+
+  // Slider being dragged: use drag value, otherwise sync with track.eq
+  const [drag, setDrag] = useState<{ field: EQField; value: number } | null>(null);
+  const valueOf = (field: EQField) => (drag?.field === field ? drag.value : eq[field]);
+
+  const throttledSetTrackEQ = useThrottle((id: string, updates: Partial<TrackEQ>) => {
+    setTrackEQ(id, updates);
+  }, 50);
+
+  const handleChange = (field: EQField, value: number) => {
+    setDrag({ field, value });
+    throttledSetTrackEQ(track.id, { [field]: value });
+  };
+
+  const handleCommit = (field: EQField, value: number) => {
+    setTrackEQ(track.id, { [field]: value });
+    setDrag(null);
+  };
+
+  const renderGainSlider = (field: 'lowGain' | 'midGain' | 'highGain', label: string) => (
+    <Box key={field} flex={1} minWidth={120}>
+      <Typography variant="caption" color="text.secondary">
+        {label}: {formatGain(valueOf(field))}
+      </Typography>
+      <Slider
+        value={valueOf(field)}
+        min={-MAX_GAIN}
+        max={MAX_GAIN}
+        step={0.5}
+        marks={[{ value: 0 }]}
+        disabled={!eq.enabled}
+        size="small"
+        onChange={(_, value) => handleChange(field, value as number)}
+        onChangeCommitted={(_, value) => handleCommit(field, value as number)}
+        sx={{ color: track.color }}
+      />
+    </Box>
+  );
+
+  const renderFilter = (
+    field: 'highPassFrequency' | 'lowPassFrequency',
+    toggle: 'highPassEnabled' | 'lowPassEnabled',
+    label: string,
+    [min, max]: number[],
+  ) => (
+    <Box flex={1} minWidth={160}>
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={eq[toggle]}
+            disabled={!eq.enabled}
+            onChange={(e) => setTrackEQ(track.id, { [toggle]: e.target.checked })}
+          />
+        }
+        label={
+          <Typography variant="caption" color="text.secondary">
+            {label}: {formatFrequency(valueOf(field))}
+          </Typography>
+        }
+      />
+      <Slider
+        value={Math.log10(valueOf(field))}
+        min={Math.log10(min)}
+        max={Math.log10(max)}
+        step={0.01}
+        disabled={!eq.enabled || !eq[toggle]}
+        size="small"
+        onChange={(_, value) => handleChange(field, Math.round(Math.pow(10, value as number)))}
+        onChangeCommitted={(_, value) => handleCommit(field, Math.round(Math.pow(10, value as number)))}
+        sx={{ color: track.color }}
+      />
+    </Box>
+  );
+
+  return (
+    <Box sx={{ mt: 1.5, p: 1.5, borderRadius: 1, bgcolor: 'action.hover' }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={eq.enabled}
+              onChange={(e) => setTrackEQ(track.id, { enabled: e.target.checked })}
+            />
+          }
+          label={<Typography variant="body2" fontWeight={600}>{t('eq.title')}</Typography>}
+        />
+        <Button
+          size="small"
+          onClick={() => setTrackEQ(track.id, { ...DEFAULT_TRACK_EQ, enabled: eq.enabled })}
+        >
+          {t('eq.reset')}
+        </Button>
+      </Box>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+        {renderGainSlider('lowGain', t('eq.low'))}
+        {renderGainSlider('midGain', t('eq.mid'))}
+        {renderGainSlider('highGain', t('eq.high'))}
+      </Stack>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap>
+        {renderFilter('highPassFrequency', 'highPassEnabled', t('eq.highPass'), HIGH_PASS_RANGE)}
+        {renderFilter('lowPassFrequency', 'lowPassEnabled', t('eq.lowPass'), LOW_PASS_RANGE)}
+      </Stack>
+    </Box>
+  );
+};
+
+export default TrackEQPanel;
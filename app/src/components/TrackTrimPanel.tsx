@@ -0,0 +1,111 @@
+import {useState} from 'react';
+import {Box, Button, Stack, TextField, Typography} from '@mui/material';
+import {useTranslation} from 'react-i18next';
+import {useAudioStore} from '../hooks/useAudioStore';
+import {getPlaybackTime} from '../hooks/usePlaybackTime';
+import {getTrackBufferDuration} from '../hooks/audioStore/engine';
+import type {AudioTrack} from '../types/audio';
+
+type TrimField = 'start' | 'end' | 'fadeIn' | 'fadeOut';
+
+interface TrackTrimPanelProps {
+  track: AudioTrack;
+}
+
+/**
+ * Expandable trim section of a track: in/out points (typed in seconds or taken from the cursor)
+ * and fade lengths. The stored file is untouched, only the played and drawn range changes
+ */
+const TrackTrimPanel = ({ track }: TrackTrimPanelProps) => {
+  const { t } = useTranslation();
+  const setTrackTrim = useAudioStore(state => state.setTrackTrim);
+  const setTrackFades = useAudioStore(state => state.setTrackFades);
+
+  // Fields are edited locally and committed on blur/Enter
+  const [input, setInput] = useState<{ field: TrimField; value: string } | null>(null);
+
+  const values: Record<TrimField, number> = {
+    start: track.trimStart,
+    end: track.trimEnd,
+    fadeIn: track.fadeIn ?? 0,
+    fadeOut: track.fadeOut ?? 0,
+  };
+
+  const commitInput = () => {
+    if (!input) return;
+    const seconds = parseFloat(input.value);
+    if (!isNaN(seconds)) {
+      if (input.field === 'start' || input.field === 'end') {
+        setTrackTrim(track.id, { [input.field]: seconds });
+      } else {
+        setTrackFades(track.id, { [input.field]: seconds });
+      }
+    }
+    setInput(null);
+  };
+
+  // Cursor position inside the file (trims don't move the audio on the timeline)
+  const cursorInFile = () => getPlaybackTime() - track.timeOffset;
+
+  const renderField = (field: TrimField, label: string, cursorLabel?: string, onSetFromCursor?: () => void) => (
+    <Box flex={1} minWidth={160} display="flex" alignItems="flex-end" gap={1}>
+      <TextField
+        label={label}
+        type="number"
+        size="small"
+        variant="standard"
+        value={input?.field === field ? input.value : values[field].toFixed(2)}
+        onChange={(e) => setInput({ field, value: e.target.value })}
+        onBlur={commitInput}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter') commitInput();
+        }}
+        slotProps={{
+          htmlInput: { step: 0.1, min: 0 },
+          input: { endAdornment: <Box component="span" sx={{ fontSize: 12, color: 'text.secondary', ml: 0.5 }}>s</Box> },
+        }}
+        sx={{ width: 110 }}
+      />
+      {onSetFromCursor && (
+        <Button size="small" onClick={onSetFromCursor}>
+          {cursorLabel}
+        </Button>
+      )}
+    </Box>
+  );
+
+  return (
+    <Box sx={{ mt: 1.5, p: 1.5, borderRadius: 1, bgcolor: 'action.hover' }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="body2" fontWeight={600}>{t('trim.title')}</Typography>
+        <Button
+          size="small"
+          disabled={Object.values(values).every(value => value === 0)}
+          onClick={() => {
+            setTrackTrim(track.id, { start: 0, end: 0 });
+            setTrackFades(track.id, { fadeIn: 0, fadeOut: 0 });
+          }}
+        >
+          {t('trim.reset')}
+        </Button>
+      </Box>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+        {renderField('start', t('trim.start'), t('trim.startAtCursor'), () => {
+          setTrackTrim(track.id, { start: cursorInFile() });
+        })}
+        {renderField('end', t('trim.end'), t('trim.endAtCursor'), () => {
+          setTrackTrim(track.id, { end: getTrackBufferDuration(track.id) - cursorInFile() });
+        })}
+      </Stack>
+
+      <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+        {renderField('fadeIn', t('trim.fadeIn'))}
+        {renderField('fadeOut', t('trim.fadeOut'))}
+      </Stack>
+    </Box>
+  );
+};
+
+export default TrackTrimPanel;
@@ -0,0 +1,60 @@
+import { useState, type ReactNode } from 'react';
+import { Box } from '@mui/material';
+
+interface VirtualizedListProps<T> {
+  items: T[];
+  rowHeight: number;
+  maxHeight: number;
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  overscan?: number;
+}
+
+/**
+ * Scrollable list with fixed-height rows: only the rows in view are mounted
+ */
+const VirtualizedList = <T,>({
+  items,
+  rowHeight,
+  maxHeight,
+  getKey,
+  renderItem,
+  overscan = 5,
+}: VirtualizedListProps<T>) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const totalHeight = items.length * rowHeight;
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + maxHeight) / rowHeight) + overscan);
+
+  return (
+    <Box
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      sx={{ maxHeight, overflowY: 'auto', position: 'relative' }}
+    >
+      <Box sx={{ height: totalHeight, position: 'relative' }}>
+        {items.slice(first, last).map((item, i) => {
+          const index = first + i;
+          return (
+            <Box
+              key={getKey(item, index)}
+              sx={{
+                position: 'absolute',
+                top: index * rowHeight,
+                left: 0,
+                right: 0,
+                height: rowHeight,
+                display: 'flex',
+                alignItems: 'center',
+              }}
+            >
+              {renderItem(item, index)}
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default VirtualizedList;
@@ -5,16 +5,27 @@ import type { WaveSurferOptions } from 'wavesurfer.js';
 import TimelinePlugin from 'wavesurfer.js/dist/plugins/timeline.esm.js';
 import Minimap from 'wavesurfer.js/dist/plugins/minimap.esm.js';
 import type {AudioTrack} from '../types/audio';
-import {markTrackFinished, registerWavesurfer, unregisterWavesurfer, useAudioStore} from '../hooks/useAudioStore';
+import {registerWavesurfer, unregisterWavesurfer, useAudioStore} from '../hooks/useAudioStore';
 import {setPlaybackTime} from '../hooks/usePlaybackTime';
 import {getWaveSurferElement, injectMarkersAndLoops, setupEditModeInteractions} from '../utils/shadowDomLoopRenderer';
 import {logger} from '../utils/logger';
+import {getEngineTime, loadTrackBuffer, setEngineRate, syncMixer, toTrackTime} from '../hooks/audioStore/engine';
 
 interface WaveformDisplayProps {
   track: AudioTrack;
   trackId: string;
 }
 
+// Peaks of the kept range, from the engine's decoded audio (copied: WaveSurfer normalizes them in place)
+const loadWaveformFromBuffer = (wavesurfer: WaveSurfer, buffer: AudioBuffer, trimStart: number, trimEnd: number) => {
+  const start = Math.round(trimStart * buffer.sampleRate);
+  const end = Math.max(start + 1, buffer.length - Math.round(trimEnd * buffer.sampleRate));
+  const peaks = Array.from({ length: buffer.numberOfChannels }, (_, channel) => {
+    return buffer.getChannelData(channel).slice(start, end);
+  });
+  return wavesurfer.load('', peaks, (end - start) / buffer.sampleRate);
+};
+
 const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
@@ -38,6 +49,13 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
     loopState,
   } = useAudioStore();
 
+  // Timeline position of the drawn (trimmed) audio, for WaveSurfer event handlers (created once per file)
+  const timelineStart = track.timeOffset + track.trimStart;
+  const timelineStartRef = useRef(timelineStart);
+  useEffect(() => {
+    timelineStartRef.current = timelineStart;
+  }, [timelineStart]);
+
   // Use ref to avoid recreating WaveSurfer when seek changes
   const seekRef = useRef(seek);
   useEffect(() => {
@@ -96,58 +114,49 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
 
     wavesurferRef.current = wavesurfer;
 
+    // Rendering only: audio is played by the shared engine
+    wavesurfer.setMuted(true);
+
     // Register this instance
     registerWavesurfer(track.id, wavesurfer);
 
 
-    // Load audio from file or recordedBlob
+    // Drawn from the engine's decoded audio, so each file is decoded once
     const audioSource = track.recordedBlob || track.file;
     if (audioSource) {
-      wavesurfer.loadBlob(audioSource);
+      loadTrackBuffer(track.id, audioSource).then((buffer) => {
+        const { tracks, masterVolume } = useAudioStore.getState();
+        syncMixer(tracks, masterVolume);
+
+        if (buffer && wavesurferRef.current === wavesurfer) {
+          loadWaveformFromBuffer(wavesurfer, buffer, track.trimStart, track.trimEnd);
+        }
+      });
     }
 
     // Update playback position during playback (throttled for performance)
     let lastTimeUpdate = 0;
-    wavesurfer.on('timeupdate', (currentTime) => {
+    wavesurfer.on('timeupdate', () => {
       const now = Date.now();
       // Throttle to 50fps (20ms)
       if (now - lastTimeUpdate > 20) {
+        // Timeline position from the engine clock (this cursor is clamped to its own track)
+        const currentTime = getEngineTime();
+
         // Update lightweight time tracker (doesn't trigger Zustand store re-renders!)
+        // Loop wrapping is scheduled by the engine itself
         setPlaybackTime(currentTime);
 
-        // Check Loop v2 first
-        const { loopState } = useAudioStore.getState();
-
-        if (loopState.activeLoopId) {
-          const activeLoop = loopState.loops.find(l => l.id === loopState.activeLoopId);
-
-          if (activeLoop && activeLoop.enabled) {
-            const startMarker = loopState.markers.find(m => m.id === activeLoop.startMarkerId);
-            const endMarker = loopState.markers.find(m => m.id === activeLoop.endMarkerId);
-
-            if (startMarker && endMarker && currentTime >= endMarker.time) {
-              logger.debug(`🔁 Loop v2 end reached (${endMarker.time.toFixed(2)}s), seeking back to ${startMarker.time.toFixed(2)}s`);
-              seekRef.current(startMarker.time);
-            }
-          }
-        }
-
         lastTimeUpdate = now;
       }
     });
 
-    // Detect when playback finishes
-    wavesurfer.on('finish', () => {
-      logger.debug('🏁 Playback finished for track:', track.id);
-      markTrackFinished(track.id);
-    });
-
     // Mark as ready when waveform is loaded
     wavesurfer.on('ready', () => {
       setIsReady(true);
 
-      // Update global duration if this track is longer
-      const duration = wavesurfer.getDuration();
+      // Update global duration if this track ends later
+      const duration = wavesurfer.getDuration() + timelineStartRef.current;
       const currentDuration = useAudioStore.getState().playbackState.duration;
       if (duration > currentDuration) {
         useAudioStore.setState((state) => ({
@@ -167,21 +176,15 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
         if (wrapper) {
           // Inject markers and loops using external module
           const trackDuration = wavesurfer.getDuration();
-          injectMarkersAndLoops(wsElement, loopState, playbackState, theme, trackDuration);
+          injectMarkersAndLoops(wsElement, loopState, playbackState, theme, trackDuration, timelineStartRef.current);
 
           // Add interaction layer for edit mode using external module
-          setupEditModeInteractions(wrapper, wsElement, loopState, playbackState, isDraggingRef, theme, trackDuration);
+          setupEditModeInteractions(wrapper, wsElement, loopState, playbackState, isDraggingRef, theme, trackDuration, timelineStartRef.current);
         }
       }
 
-      // Set initial state from track data
-      const allTracks = useAudioStore.getState().tracks;
-      const hasSoloedTracks = allTracks.some(t => t.isSolo);
-      const shouldBeMuted = track.isMuted || (hasSoloedTracks && !track.isSolo);
-
-      wavesurfer.setMuted(shouldBeMuted);
-      wavesurfer.setVolume(track.volume * useAudioStore.getState().masterVolume);
-      wavesurfer.setPlaybackRate(useAudioStore.getState().playbackState.playbackRate, true);
+      // Set initial mixer state from track data
+      syncMixer(useAudioStore.getState().tracks, useAudioStore.getState().masterVolume);
 
       // Restore zoom level from store
       const currentZoom = useAudioStore.getState().zoomLevel;
@@ -202,7 +205,7 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
         // Normal restore: restore playback position from store
         const currentTime = useAudioStore.getState().playbackState.currentTime;
         if (currentTime > 0) {
-          wavesurfer.setTime(currentTime);
+          wavesurfer.setTime(toTrackTime(track.id, currentTime, wavesurfer.getDuration()));
         }
       }
     });
@@ -224,7 +227,7 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
       }
 
       const duration = wavesurfer.getDuration();
-      const time = progress * duration;
+      const time = Math.max(0, progress * duration + timelineStartRef.current);
       seekRef.current(time); // Use ref to avoid dependency
     });
 
@@ -235,7 +238,7 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
 
         // The minimap already updated its own track automatically
         // We just need to sync to OTHER tracks
-        const newTime = wavesurfer.getCurrentTime();
+        const newTime = Math.max(0, wavesurfer.getCurrentTime() + timelineStartRef.current);
 
         // Disable active loop when seeking
         if (loopState.activeLoopId) {
@@ -313,7 +316,7 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
       
       wavesurfer.destroy();
     };
-  }, [track.file, track.recordedBlob, track.id, waveformTimeline, waveformMinimap]); // REMOVED theme.palette.mode to prevent recreation
+  }, [track.file, track.recordedBlob, track.id, track.trimStart, track.trimEnd, waveformTimeline, waveformMinimap]); // REMOVED theme.palette.mode to prevent recreation
 
   // Handle waveform style and normalize with setOptions (no recreation needed)
   useEffect(() => {
@@ -407,22 +410,19 @@ const WaveformDisplay = ({ track }: WaveformDisplayProps) => {
     if (!wrapper) return;
 
     const trackDuration = wavesurferRef.current?.getDuration() || 0;
-    injectMarkersAndLoops(wsElement, loopState, playbackState, theme, trackDuration);
-    setupEditModeInteractions(wrapper, wsElement, loopState, playbackState, isDraggingRef, theme, trackDuration);
-  }, [isReady, loopState.markers, loopState.loops, loopState.editMode]); // REMOVED: playbackState.isPlaying, playbackState.duration, theme
+    injectMarkersAndLoops(wsElement, loopState, playbackState, theme, trackDuration, timelineStart);
+    setupEditModeInteractions(wrapper, wsElement, loopState, playbackState, isDraggingRef, theme, trackDuration, timelineStart);
+  }, [isReady, loopState.markers, loopState.loops, loopState.editMode, timelineStart]); // REMOVED: playbackState.isPlaying, playbackState.duration, theme
 
-  // Update volume when it changes (NOT mute - that's handled in store)
+  // Update engine volume/pan/EQ when they change (NOT mute - that's handled in store)
   useEffect(() => {
-    if (!wavesurferRef.current) return;
-    const volume = track.volume * masterVolume;
-    wavesurferRef.current.setVolume(volume);
-  }, [track.volume, masterVolume]);
+    syncMixer(useAudioStore.getState().tracks, masterVolume);
+  }, [track.volume, track.pan, track.eq, masterVolume]);
 
-  // Update playback rate when it changes
+  // Update engine playback rate when it changes (e.g. piece loaded)
   useEffect(() => {
-    if (!wavesurferRef.current || !isReady) return;
-    wavesurferRef.current.setPlaybackRate(playbackState.playbackRate, true);
-  }, [playbackState.playbackRate, isReady]);
+    setEngineRate(playbackState.playbackRate);
+  }, [playbackState.playbackRate]);
 
   // Update cursor color when theme changes
   useEffect(() => {
@@ -464,6 +464,11 @@ export default memo(WaveformDisplay, (prev, next) => {
     prev.track.recordedBlob === next.track.recordedBlob &&
     prev.track.color === next.track.color &&
     prev.track.volume === next.track.volume &&
+    prev.track.pan === next.track.pan &&
+    prev.track.timeOffset === next.track.timeOffset &&
+    prev.track.trimStart === next.track.trimStart &&
+    prev.track.trimEnd === next.track.trimEnd &&
+    prev.track.eq === next.track.eq &&
     prev.track.isMuted === next.track.isMuted &&
     prev.track.isSolo === next.track.isSolo
   );
@@ -0,0 +1,112 @@
+/**
+ * Automatic stem alignment
+ * Sends the decoded audio of each track to a worker that cross-correlates it with
+ * the reference track, and returns the timeline offset that lines each one up.
+ */
+
+import { logger } from '../../utils/logger';
+import { toMonoSamples, type AlignmentEstimate } from '../../utils/stemAlignment';
+import { getTrackBuffer, getTrackOffset } from './engine';
+
+export const MIN_ALIGNMENT_CONFIDENCE = 0.1; // Below this the match is treated as unreliable
+
+// Worker protocol
+export interface AlignmentRequest {
+  sampleRate: number;
+  reference: Float32Array;
+  tracks: { id: string; samples: Float32Array }[];
+}
+
+export type AlignmentResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; trackId: string; estimate: AlignmentEstimate | null }
+  | { type: 'done' };
+
+export interface AlignmentResult {
+  trackId: string;
+  offset: number | null; // Timeline offset (seconds) to apply, null when no match was found
+  confidence: number;
+}
+
+/**
+ * Find the offset aligning each track with the reference track
+ * Offsets are absolute (they include the reference's own offset); `onProgress` receives 0-1
+ * Aborting `signal` stops the worker and rejects with an AbortError
+ */
+export const analyzeAlignment = (
+  referenceId: string,
+  trackIds: string[],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AlignmentResult[]> => {
+  const referenceBuffer = getTrackBuffer(referenceId);
+  if (!referenceBuffer) {
+    return Promise.reject(new Error(`Reference track ${referenceId} has no decoded audio`));
+  }
+
+  const sampleRate = referenceBuffer.sampleRate;
+  const tracks = trackIds
+    .filter(id => id !== referenceId)
+    .map(id => ({ id, buffer: getTrackBuffer(id) }))
+    .filter((t): t is { id: string; buffer: AudioBuffer } => t.buffer !== null)
+    // Buffers are decoded on the engine context, so sample rates should match
+    .filter(t => t.buffer.sampleRate === sampleRate);
+
+  if (tracks.length === 0) {
+    return Promise.reject(new Error('No track to align'));
+  }
+
+  const request: AlignmentRequest = {
+    sampleRate,
+    reference: toMonoSamples(referenceBuffer),
+    tracks: tracks.map(t => ({ id: t.id, samples: toMonoSamples(t.buffer) })),
+  };
+  // Timeline position of the reference's first decoded sample (trims don't move it)
+  const referenceOrigin = getTrackOffset(referenceId);
+
+  logger.debug(`🎯 Aligning ${tracks.length} tracks against ${referenceId}`);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Alignment cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../../workers/alignment.worker.ts', import.meta.url), { type: 'module' });
+    const results: AlignmentResult[] = [];
+
+    const handleAbort = () => {
+      worker.terminate();
+      logger.debug('🎯 Alignment cancelled');
+      reject(new DOMException('Alignment cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<AlignmentResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        const { estimate } = message;
+        results.push({
+          trackId: message.trackId,
+          offset: estimate ? referenceOrigin + estimate.offset : null,
+          confidence: estimate?.confidence ?? 0,
+        });
+      } else {
+        worker.terminate();
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(results);
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new Error(`Alignment worker failed: ${event.message}`));
+    };
+
+    // Transfer the sample buffers instead of copying them
+    worker.postMessage(request, [request.reference.buffer, ...request.tracks.map(t => t.samples.buffer)]);
+  });
+};
@@ -0,0 +1,100 @@
+/**
+ * Cursor lag diagnostics for audioStore
+ * While playing, compares every WaveSurfer cursor with the engine clock.
+ * Audio can't drift between stems (the engine starts every voice on one clock),
+ * so this only shows how far the drawn cursors trail the sound on slow devices.
+ */
+
+import { logger } from '../../utils/logger';
+import { wavesurferInstances, getIsSynchronizing } from './shared';
+import { getEngineTime, toTrackTime } from './engine';
+
+// How often cursors are measured while playing
+const CHECK_INTERVAL = 500;
+
+export interface CursorLagStats {
+  referenceTime: number;
+  lags: Record<string, number>; // trackId → cursor offset in ms (positive = ahead of the audio)
+  maxLag: number; // ms, absolute
+  lateChecks: number; // Measurements beyond the threshold since playback started
+  lastCheck: number; // Date.now() of last measurement
+}
+
+let stats: CursorLagStats = {
+  referenceTime: 0,
+  lags: {},
+  maxLag: 0,
+  lateChecks: 0,
+  lastCheck: 0,
+};
+const listeners = new Set<(stats: CursorLagStats) => void>();
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let getThreshold: () => number = () => 0.05;
+
+const publish = (next: CursorLagStats) => {
+  stats = next;
+  listeners.forEach(listener => listener(next));
+};
+
+export const getCursorLagStats = () => stats;
+
+export const subscribeToCursorLagStats = (listener: (stats: CursorLagStats) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Measure every cursor (the engine's cursor loop keeps moving them, nothing is corrected here)
+const checkCursors = () => {
+  // A seek is moving every cursor right now, measurements would be meaningless
+  if (getIsSynchronizing()) return;
+
+  const engineTime = getEngineTime();
+  const threshold = getThreshold();
+  const lags: Record<string, number> = {};
+  let maxLag = 0;
+  let late = 0;
+
+  wavesurferInstances.forEach((ws, trackId) => {
+    const duration = ws.getDuration();
+    if (!duration) return; // Not decoded yet
+
+    const lag = ws.getCurrentTime() - toTrackTime(trackId, engineTime, duration);
+    lags[trackId] = lag * 1000;
+    maxLag = Math.max(maxLag, Math.abs(lag) * 1000);
+
+    if (Math.abs(lag) > threshold) {
+      late++;
+      logger.debug(`⏱️ Cursor of ${trackId} is ${lags[trackId].toFixed(1)}ms off the audio`);
+    }
+  });
+
+  publish({
+    referenceTime: engineTime,
+    lags,
+    maxLag,
+    lateChecks: stats.lateChecks + late,
+    lastCheck: Date.now(),
+  });
+};
+
+/**
+ * Start measuring cursors; threshold getter returns seconds
+ */
+export const startCursorLagMonitor = (thresholdGetter: () => number) => {
+  getThreshold = thresholdGetter;
+  if (timer !== null) return;
+
+  publish({ ...stats, lags: {}, maxLag: 0, lateChecks: 0 });
+  timer = setInterval(checkCursors, CHECK_INTERVAL);
+  logger.debug('⏱️ Cursor lag monitor started');
+};
+
+export const stopCursorLagMonitor = () => {
+  if (timer === null) return;
+  clearInterval(timer);
+  timer = null;
+  logger.debug('⏱️ Cursor lag monitor stopped');
+};
@@ -0,0 +1,841 @@
+/**
+ * Shared Web Audio playback engine for audioStore
+ * Schedules every track's decoded buffer against the store's AudioContext clock,
+ * so all stems start on the same sample and can never drift apart.
+ * WaveSurfer instances are only used for rendering: their cursor follows this clock.
+ * Loop wraps are scheduled ahead on the same clock, with a short crossfade.
+ */
+
+import type { AudioTrack, TrackEQ } from '../../types/audio';
+import { logger } from '../../utils/logger';
+import { PitchShifter } from '../../utils/pitchShifter';
+import { wavesurferInstances } from './shared';
+
+// Delay between scheduling and the first sample (main thread safety margin)
+const SCHEDULE_LOOKAHEAD = 0.03;
+// Cursor refresh throttle (50fps)
+const CURSOR_UPDATE_INTERVAL = 20;
+// Loop wraps are scheduled this far ahead of the audio clock, checked at this interval
+const LOOP_SCHEDULE_AHEAD = 0.1;
+const LOOP_SCHEDULER_INTERVAL = 25; // ms
+// Overlap between the end of a loop pass and the start of the next (seconds)
+const LOOP_CROSSFADE = 0.01;
+// EQ band centre frequencies (Hz)
+const EQ_LOW_FREQUENCY = 200;
+const EQ_MID_FREQUENCY = 1000;
+const EQ_HIGH_FREQUENCY = 4000;
+// High-pass cutoff low enough to be transparent when the filter is off
+const HIGH_PASS_BYPASS_FREQUENCY = 10;
+// Output limiter ceiling (dBFS) and meter window
+const LIMITER_THRESHOLD = -1;
+const METER_FFT_SIZE = 2048;
+
+// Per-track tone shaping: high-pass → low shelf → peaking → high shelf → low-pass
+export interface TrackFilters {
+  highPass: BiquadFilterNode;
+  low: BiquadFilterNode;
+  mid: BiquadFilterNode;
+  high: BiquadFilterNode;
+  lowPass: BiquadFilterNode;
+}
+
+// Fade-in/fade-out lengths at the track boundaries (seconds of track audio)
+export interface TrackFades {
+  fadeIn: number;
+  fadeOut: number;
+}
+
+interface TrackVoice {
+  blob: Blob;
+  buffer: AudioBuffer;
+  gain: GainNode;
+  filters: TrackFilters;
+  panner: StereoPannerNode;
+  node: AudioBufferSourceNode | null;
+  envelope: GainNode | null; // Fades of the running node (one per start)
+  startsAt: number; // Context time the node starts sounding (later than scheduled for delayed tracks)
+}
+
+let audioContext: AudioContext | null = null;
+let mixBus: GainNode | null = null;
+let pitchShifter: PitchShifter | null = null;
+let masterGain: GainNode | null = null;
+let limiter: DynamicsCompressorNode | null = null;
+let outputBus: GainNode | null = null;
+let meters: AnalyserNode[] = [];
+let meterData: Float32Array<ArrayBuffer> | null = null;
+let limiterEnabled = true;
+
+const voices = new Map<string, TrackVoice>();
+const pendingDecodes = new Map<string, { blob: Blob; promise: Promise<AudioBuffer | null> }>();
+const trackGains = new Map<string, number>();
+const trackPans = new Map<string, number>();
+const trackEQs = new Map<string, TrackEQ | undefined>();
+const trackOffsets = new Map<string, number>();
+const trackTrims = new Map<string, { start: number; end: number }>();
+const trackFades = new Map<string, TrackFades>();
+
+// Gain changes (mute/solo/volume) and voice starts/stops are smoothed over this time (seconds)
+let gainRamp = 0.015;
+
+// Transport clock: position = anchorPosition + (context time - anchorContextTime) * rate
+let isRunning = false;
+let anchorContextTime = 0;
+let anchorPosition = 0;
+let rate = 1;
+// Transposition ratio, applied on top of the rate compensation
+let pitchRatio = 1;
+
+let cursorFrame: number | null = null;
+let lastCursorUpdate = 0;
+
+let onTrackEnded: ((trackId: string) => void) | null = null;
+
+// Active loop, read on every scheduler run so edits apply on the next pass
+let getLoopRegion: (() => LoopRegion | null) | null = null;
+let onLoopWrap: (() => void) | null = null;
+let onLoopEnd: (() => void) | null = null;
+// Last pass of a counted loop reached its end (reported once until the transport moves)
+let loopEndReported = false;
+let loopTimer: ReturnType<typeof setInterval> | null = null;
+// Wrap already scheduled on the audio clock: from `contextTime` the timeline restarts at `position`
+let pendingWrap: { contextTime: number; position: number } | null = null;
+
+// Notified when the clock anchors move: 'moved' on start/stop/seek/rate change,
+// 'wrapped' when a loop wrap planned ahead becomes audible
+export type TransportChange = 'moved' | 'wrapped';
+const transportListeners = new Set<(change: TransportChange) => void>();
+
+/**
+ * Output limiter: brick-wall style settings (fast attack, hard knee, high ratio)
+ */
+export const createLimiter = (context: BaseAudioContext) => {
+  const node = context.createDynamicsCompressor();
+  node.threshold.value = LIMITER_THRESHOLD;
+  node.knee.value = 0;
+  node.ratio.value = 20;
+  node.attack.value = 0.001;
+  node.release.value = 0.1;
+  return node;
+};
+
+/**
+ * Build the shared graph: tracks (gain → EQ → pan) → mix bus → pitch correction → master
+ * → limiter → output (metered) → destination
+ */
+export const initEngine = (context: AudioContext) => {
+  if (audioContext === context) return;
+
+  audioContext = context;
+  mixBus = context.createGain();
+  pitchShifter = new PitchShifter(context);
+  masterGain = context.createGain();
+
+  limiter = createLimiter(context);
+
+  outputBus = context.createGain();
+  const splitter = context.createChannelSplitter(2);
+  meters = [context.createAnalyser(), context.createAnalyser()];
+  meters.forEach((meter, channel) => {
+    meter.fftSize = METER_FFT_SIZE;
+    splitter.connect(meter, channel);
+  });
+  meterData = new Float32Array(METER_FFT_SIZE);
+
+  mixBus.connect(pitchShifter.input);
+  pitchShifter.output.connect(masterGain);
+  limiter.connect(outputBus);
+  connectMaster();
+  outputBus.connect(splitter);
+  outputBus.connect(context.destination);
+
+  logger.debug('🎛️ Playback engine initialized @', context.sampleRate, 'Hz');
+};
+
+export const getEngineContext = () => audioContext;
+
+// Master → limiter, or straight to the output when the limiter is bypassed
+const connectMaster = () => {
+  if (!masterGain || !limiter || !outputBus) return;
+  masterGain.disconnect();
+  masterGain.connect(limiterEnabled ? limiter : outputBus);
+};
+
+/**
+ * Enable or bypass the output limiter
+ */
+export const setEngineLimiter = (enabled: boolean) => {
+  if (enabled === limiterEnabled) return;
+  limiterEnabled = enabled;
+  connectMaster();
+  logger.debug(`🧱 Limiter ${enabled ? 'on' : 'off'}`);
+};
+
+export interface OutputLevels {
+  peak: number[]; // Per channel, linear 0-1+ (above 1 = clipping)
+  rms: number[];
+  reduction: number; // Limiter gain reduction (dB, <= 0)
+}
+
+/**
+ * Peak and RMS of the last output window, per channel
+ */
+export const getOutputLevels = (): OutputLevels | null => {
+  if (!meterData || meters.length === 0) return null;
+  const data = meterData;
+
+  const levels: OutputLevels = { peak: [], rms: [], reduction: limiterEnabled ? limiter?.reduction ?? 0 : 0 };
+  meters.forEach((meter) => {
+    meter.getFloatTimeDomainData(data);
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+      sum += value * value;
+    }
+    levels.peak.push(peak);
+    levels.rms.push(Math.sqrt(sum / data.length));
+  });
+  return levels;
+};
+
+/**
+ * Node for sources that must bypass pitch correction (metronome...)
+ */
+export const getMasterInput = () => masterGain;
+
+export const subscribeToTransport = (listener: (change: TransportChange) => void) => {
+  transportListeners.add(listener);
+  return () => {
+    transportListeners.delete(listener);
+  };
+};
+
+const notifyTransport = (change: TransportChange = 'moved') => {
+  transportListeners.forEach(listener => listener(change));
+};
+
+/**
+ * Called with the track id when a track reaches the end of its buffer
+ */
+export const setTrackEndedHandler = (handler: (trackId: string) => void) => {
+  onTrackEnded = handler;
+};
+
+// Timeline position at a given AudioContext time
+const positionAt = (contextTime: number) => {
+  if (!isRunning) return anchorPosition;
+  if (pendingWrap && contextTime >= pendingWrap.contextTime) {
+    return pendingWrap.position + (contextTime - pendingWrap.contextTime) * rate;
+  }
+  return anchorPosition + Math.max(0, contextTime - anchorContextTime) * rate;
+};
+
+/**
+ * Current position on the shared timeline (seconds)
+ */
+export const getEngineTime = () => {
+  if (!audioContext) return anchorPosition;
+  return positionAt(audioContext.currentTime);
+};
+
+export const isEngineRunning = () => isRunning;
+
+/**
+ * Timeline position heard at a given AudioContext time
+ */
+export const getEnginePositionAt = (contextTime: number) => positionAt(contextTime);
+
+/**
+ * AudioContext time at which a timeline position will be heard (while running)
+ */
+export const getContextTimeAt = (position: number) => {
+  return anchorContextTime + (position - anchorPosition) / rate;
+};
+
+/**
+ * Loop wrap planned on the audio clock and not heard yet: from `contextTime`,
+ * the timeline restarts at `position` and moves at `rate`
+ */
+export const getPendingWrap = () => (isRunning && pendingWrap ? { ...pendingWrap, rate } : null);
+
+export const getTrackBufferDuration = (trackId: string) => {
+  return voices.get(trackId)?.buffer.duration ?? 0;
+};
+
+export const getTrackBuffer = (trackId: string) => {
+  return voices.get(trackId)?.buffer ?? null;
+};
+
+/**
+ * Build a track's EQ chain on any context (live or offline mixdown)
+ */
+export const createTrackFilters = (context: BaseAudioContext): TrackFilters => {
+  const highPass = context.createBiquadFilter();
+  highPass.type = 'highpass';
+  const low = context.createBiquadFilter();
+  low.type = 'lowshelf';
+  low.frequency.value = EQ_LOW_FREQUENCY;
+  const mid = context.createBiquadFilter();
+  mid.type = 'peaking';
+  mid.frequency.value = EQ_MID_FREQUENCY;
+  const high = context.createBiquadFilter();
+  high.type = 'highshelf';
+  high.frequency.value = EQ_HIGH_FREQUENCY;
+  const lowPass = context.createBiquadFilter();
+  lowPass.type = 'lowpass';
+
+  highPass.connect(low);
+  low.connect(mid);
+  mid.connect(high);
+  high.connect(lowPass);
+  return { highPass, low, mid, high, lowPass };
+};
+
+/**
+ * Disabled EQ (or filter) is applied as neutral settings, the chain stays connected
+ */
+export const applyTrackEQ = (filters: TrackFilters, eq: TrackEQ | undefined, when: number) => {
+  const isOn = !!eq?.enabled;
+  const nyquist = filters.lowPass.context.sampleRate / 2;
+
+  filters.low.gain.setValueAtTime(isOn ? eq.lowGain : 0, when);
+  filters.mid.gain.setValueAtTime(isOn ? eq.midGain : 0, when);
+  filters.high.gain.setValueAtTime(isOn ? eq.highGain : 0, when);
+  filters.highPass.frequency.setValueAtTime(
+    isOn && eq.highPassEnabled ? eq.highPassFrequency : HIGH_PASS_BYPASS_FREQUENCY,
+    when
+  );
+  filters.lowPass.frequency.setValueAtTime(
+    isOn && eq.lowPassEnabled ? Math.min(eq.lowPassFrequency, nyquist) : nyquist,
+    when
+  );
+};
+
+/**
+ * Where a track sits on the shared timeline (seconds, positive = starts later)
+ */
+export const getTrackOffset = (trackId: string) => trackOffsets.get(trackId) ?? 0;
+
+/**
+ * Seconds skipped at the start and end of a track's audio
+ */
+export const getTrackTrim = (trackId: string) => trackTrims.get(trackId) ?? { start: 0, end: 0 };
+
+export const getTrackFades = (trackId: string) => trackFades.get(trackId) ?? { fadeIn: 0, fadeOut: 0 };
+
+/**
+ * Smoothing time of gain changes and voice starts/stops (seconds, 0 = instant)
+ */
+export const setEngineGainRamp = (seconds: number) => {
+  gainRamp = Math.max(0, seconds);
+};
+
+/**
+ * Length of a track once trimmed (what is played and drawn)
+ */
+export const getTrackDuration = (trackId: string) => {
+  const trim = getTrackTrim(trackId);
+  return Math.max(0, getTrackBufferDuration(trackId) - trim.start - trim.end);
+};
+
+/**
+ * Timeline position where a track's kept audio starts
+ * Trimming hides audio: what remains stays where it was on the timeline
+ */
+export const getTrackStart = (trackId: string) => getTrackOffset(trackId) + getTrackTrim(trackId).start;
+
+/**
+ * Timeline position where a track's audio ends
+ */
+export const getTrackEndTime = (trackId: string) => getTrackStart(trackId) + getTrackDuration(trackId);
+
+/**
+ * Position inside a track's own (trimmed) audio for a timeline position, clamped to the track
+ */
+export const toTrackTime = (trackId: string, position: number, duration: number) => {
+  return Math.max(0, Math.min(position - getTrackStart(trackId), duration));
+};
+
+// Envelope level at a point of the track (lowest of both fades)
+const fadeLevelAt = ({ fadeIn, fadeOut }: TrackFades, duration: number, time: number) => Math.max(0, Math.min(
+  1,
+  fadeIn > 0 ? time / fadeIn : 1,
+  fadeOut > 0 ? (duration - time) / fadeOut : 1
+));
+
+/**
+ * Schedule a fade envelope for a source playing `trackPosition` (inside the trimmed track) at `when`
+ * A non-zero `declick` ramps in from silence when starting in the middle of the audio
+ */
+export const scheduleFades = (
+  param: AudioParam,
+  when: number,
+  trackPosition: number,
+  duration: number,
+  fades: TrackFades,
+  playbackRate: number,
+  declick = 0
+) => {
+  const { fadeIn, fadeOut } = fades;
+  const levelAt = (time: number) => fadeLevelAt(fades, duration, time);
+  const contextTimeAt = (time: number) => when + (time - trackPosition) / playbackRate;
+
+  let from = Math.max(0, trackPosition);
+  param.cancelScheduledValues(when);
+  if (declick > 0 && trackPosition > 0) {
+    param.setValueAtTime(0, contextTimeAt(from));
+    from = Math.min(duration, from + declick * playbackRate);
+    param.linearRampToValueAtTime(levelAt(from), contextTimeAt(from));
+  } else {
+    param.setValueAtTime(levelAt(from), contextTimeAt(from));
+  }
+
+  // Ramp through the remaining fade corners
+  [fadeIn, duration - fadeOut, duration]
+    .filter(time => time > from && time <= duration)
+    .sort((a, b) => a - b)
+    .forEach(time => param.linearRampToValueAtTime(levelAt(time), contextTimeAt(time)));
+};
+
+// Start one voice so that timeline `position` is heard at context time `when`
+const startVoice = (trackId: string, voice: TrackVoice, when: number, position: number, declick = gainRamp) => {
+  const trackPosition = position - getTrackStart(trackId);
+  const duration = getTrackDuration(trackId);
+  if (!audioContext || trackPosition >= duration) return false;
+
+  const node = audioContext.createBufferSource();
+  node.buffer = voice.buffer;
+  node.playbackRate.value = rate;
+  const envelope = audioContext.createGain();
+  node.connect(envelope);
+  envelope.connect(voice.gain);
+  node.onended = () => {
+    node.disconnect();
+    envelope.disconnect();
+    // Ignore voices stopped by pause/seek (already detached)
+    if (voice.node !== node) return;
+    voice.node = null;
+    voice.envelope = null;
+    logger.debug('🏁 Engine voice ended:', trackId);
+    onTrackEnded?.(trackId);
+  };
+  // Track starting later on the timeline: wait until its first sample is due
+  const startsAt = when + Math.max(0, -trackPosition) / rate;
+  // Only the trimmed range is played, so the voice ends (and reports it) at the out point
+  const skipped = Math.max(0, trackPosition);
+  node.start(startsAt, getTrackTrim(trackId).start + skipped, duration - skipped);
+  scheduleFades(envelope.gain, when, trackPosition, duration, getTrackFades(trackId), rate, declick);
+  voice.node = node;
+  voice.envelope = envelope;
+  voice.startsAt = startsAt;
+  return true;
+};
+
+// Running voice: re-plan its envelope from now (fades edited, rate changed)
+const rescheduleFades = (trackId: string, voice: TrackVoice) => {
+  if (!audioContext || !voice.envelope || !isRunning) return;
+  const now = Math.max(audioContext.currentTime, voice.startsAt);
+  const trackPosition = positionAt(now) - getTrackStart(trackId);
+  scheduleFades(voice.envelope.gain, now, trackPosition, getTrackDuration(trackId), getTrackFades(trackId), rate);
+};
+
+// Fade the running node out over the gain ramp, it disconnects itself once stopped
+const stopVoice = (voice: TrackVoice) => {
+  const { node, envelope } = voice;
+  if (!node) return;
+  voice.node = null;
+  voice.envelope = null;
+
+  let stopAt = 0;
+  if (audioContext && envelope && gainRamp > 0) {
+    const now = audioContext.currentTime;
+    envelope.gain.cancelScheduledValues(now);
+    envelope.gain.setValueAtTime(envelope.gain.value, now);
+    envelope.gain.linearRampToValueAtTime(0, now + gainRamp);
+    stopAt = now + gainRamp;
+  }
+  try {
+    node.stop(stopAt);
+  } catch {
+    // Already stopped
+  }
+};
+
+/**
+ * Decode a track's audio on the shared context and keep it for playback
+ * Re-using the same blob is free (waveform re-creations don't decode again)
+ */
+export const loadTrackBuffer = async (trackId: string, blob: Blob): Promise<AudioBuffer | null> => {
+  if (!audioContext || !mixBus) return null;
+
+  const existing = voices.get(trackId);
+  if (existing && existing.blob === blob) return existing.buffer;
+
+  const pending = pendingDecodes.get(trackId);
+  if (pending && pending.blob === blob) return pending.promise;
+
+  const context = audioContext;
+  const bus = mixBus;
+  const promise = (async () => {
+    try {
+      const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+      // Track released or replaced while decoding
+      if (pendingDecodes.get(trackId)?.blob !== blob) return null;
+      pendingDecodes.delete(trackId);
+
+      releaseTrack(trackId);
+
+      const gain = context.createGain();
+      gain.gain.value = trackGains.get(trackId) ?? 1;
+      const filters = createTrackFilters(context);
+      applyTrackEQ(filters, trackEQs.get(trackId), context.currentTime);
+      const panner = context.createStereoPanner();
+      panner.pan.value = trackPans.get(trackId) ?? 0;
+      gain.connect(filters.highPass);
+      filters.lowPass.connect(panner);
+      panner.connect(bus);
+
+      const voice: TrackVoice = { blob, buffer, gain, filters, panner, node: null, envelope: null, startsAt: 0 };
+      voices.set(trackId, voice);
+
+      logger.debug(`🎛️ Decoded ${trackId}: ${buffer.duration.toFixed(2)}s, ${buffer.numberOfChannels}ch`);
+
+      // Join a playback already in progress
+      if (isRunning) {
+        const when = context.currentTime + SCHEDULE_LOOKAHEAD;
+        startVoice(trackId, voice, when, positionAt(when));
+      }
+
+      return buffer;
+    } catch (error) {
+      console.error('Failed to decode track audio:', trackId, error);
+      if (pendingDecodes.get(trackId)?.blob === blob) {
+        pendingDecodes.delete(trackId);
+      }
+      return null;
+    }
+  })();
+
+  pendingDecodes.set(trackId, { blob, promise });
+  return promise;
+};
+
+/**
+ * Stop and forget a track's buffer (track removed or recording cleared)
+ */
+export const releaseTrack = (trackId: string) => {
+  pendingDecodes.delete(trackId);
+  const voice = voices.get(trackId);
+  if (!voice) return;
+
+  stopVoice(voice);
+  voice.gain.disconnect();
+  Object.values(voice.filters).forEach(filter => filter.disconnect());
+  voice.panner.disconnect();
+  voices.delete(trackId);
+};
+
+/**
+ * Forget every buffer except the given track ids (piece switch)
+ */
+export const releaseTracksExcept = (keepIds: string[]) => {
+  const keep = new Set(keepIds);
+  [...voices.keys(), ...pendingDecodes.keys()].forEach((id) => {
+    if (!keep.has(id)) {
+      releaseTrack(id);
+      trackGains.delete(id);
+      trackPans.delete(id);
+      trackEQs.delete(id);
+      trackOffsets.delete(id);
+      trackTrims.delete(id);
+      trackFades.delete(id);
+    }
+  });
+};
+
+/**
+ * Apply volume, pan, EQ, time offset, trim, fades, mute and solo of every track, plus master volume
+ */
+export const syncMixer = (tracks: AudioTrack[], masterVolume: number) => {
+  const hasSoloedTracks = tracks.some(t => t.isSolo);
+
+  tracks.forEach((t) => {
+    const shouldBeMuted = t.isMuted || (hasSoloedTracks && !t.isSolo);
+    const value = shouldBeMuted ? 0 : t.volume;
+    trackGains.set(t.id, value);
+    trackPans.set(t.id, t.pan);
+    trackEQs.set(t.id, t.eq);
+    const trim = getTrackTrim(t.id);
+    const placementChanged = getTrackOffset(t.id) !== t.timeOffset
+      || trim.start !== t.trimStart || trim.end !== t.trimEnd;
+    trackOffsets.set(t.id, t.timeOffset);
+    trackTrims.set(t.id, { start: t.trimStart, end: t.trimEnd });
+    const fades = getTrackFades(t.id);
+    const fadesChanged = fades.fadeIn !== (t.fadeIn ?? 0) || fades.fadeOut !== (t.fadeOut ?? 0);
+    trackFades.set(t.id, { fadeIn: t.fadeIn ?? 0, fadeOut: t.fadeOut ?? 0 });
+
+    const voice = voices.get(t.id);
+    // Nudged or trimmed while playing: restart this voice at its new place on the timeline
+    if (voice && placementChanged && isRunning && audioContext) {
+      stopVoice(voice);
+      const when = audioContext.currentTime + SCHEDULE_LOOKAHEAD;
+      startVoice(t.id, voice, when, positionAt(when));
+    } else if (voice && fadesChanged) {
+      rescheduleFades(t.id, voice);
+    }
+    if (voice && audioContext) {
+      // Smoothed so muting or soloing a sustained part doesn't click
+      if (gainRamp > 0) {
+        voice.gain.gain.setTargetAtTime(value, audioContext.currentTime, gainRamp / 3);
+      } else {
+        voice.gain.gain.setValueAtTime(value, audioContext.currentTime);
+      }
+      voice.panner.pan.setValueAtTime(t.pan, audioContext.currentTime);
+      applyTrackEQ(voice.filters, t.eq, audioContext.currentTime);
+    }
+  });
+
+  if (masterGain && audioContext) {
+    masterGain.gain.setValueAtTime(masterVolume, audioContext.currentTime);
+  }
+};
+
+/**
+ * Start all voices from the current position on one clock
+ * Returns the ids of tracks that are already past their end
+ */
+export const startEngine = () => {
+  if (!audioContext) return [];
+  if (isRunning) return [];
+
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(err => console.warn('AudioContext resume error:', err));
+  }
+
+  const when = audioContext.currentTime + SCHEDULE_LOOKAHEAD;
+  const position = anchorPosition;
+  anchorContextTime = when;
+  pendingWrap = null;
+  loopEndReported = false;
+  isRunning = true;
+
+  const finished: string[] = [];
+  voices.forEach((voice, trackId) => {
+    if (!startVoice(trackId, voice, when, position)) {
+      finished.push(trackId);
+    }
+  });
+
+  logger.debug(`▶️ Engine started at ${position.toFixed(3)}s (${voices.size} voices)`);
+  startCursorLoop();
+  startLoopScheduler();
+  notifyTransport();
+  return finished;
+};
+
+/**
+ * Stop all voices and freeze the clock, returns the stop position
+ */
+export const stopEngine = () => {
+  const position = getEngineTime();
+  voices.forEach(stopVoice);
+  isRunning = false;
+  anchorPosition = position;
+  pendingWrap = null;
+  stopCursorLoop();
+  stopLoopScheduler();
+  notifyTransport();
+  logger.debug(`⏸️ Engine stopped at ${position.toFixed(3)}s`);
+  return position;
+};
+
+/**
+ * Move the transport; running voices are restarted together at the new position
+ */
+export const seekEngine = (position: number) => {
+  anchorPosition = Math.max(0, position);
+  pendingWrap = null;
+  loopEndReported = false;
+  if (!isRunning || !audioContext) return;
+
+  voices.forEach(stopVoice);
+  const when = audioContext.currentTime + SCHEDULE_LOOKAHEAD;
+  anchorContextTime = when;
+  voices.forEach((voice, trackId) => {
+    startVoice(trackId, voice, when, anchorPosition);
+  });
+  notifyTransport();
+};
+
+/**
+ * Change speed on all voices at the same context time (pitch is corrected)
+ */
+export const setEngineRate = (newRate: number) => {
+  if (newRate === rate) return;
+
+  // A wrap planned at the old speed would land off the loop end: restart from here instead
+  if (pendingWrap && isRunning && audioContext) {
+    seekEngine(getEngineTime());
+  }
+
+  if (isRunning && audioContext) {
+    // Re-anchor the clock so the position stays continuous
+    const now = Math.max(audioContext.currentTime, anchorContextTime);
+    anchorPosition = positionAt(now);
+    anchorContextTime = now;
+    voices.forEach((voice) => {
+      voice.node?.playbackRate.setValueAtTime(newRate, now);
+    });
+  }
+
+  rate = newRate;
+
+  // Delayed tracks not sounding yet were timed for the old rate: reschedule them,
+  // and move the fades of the others to their new context times
+  if (isRunning && audioContext) {
+    const now = anchorContextTime;
+    voices.forEach((voice, trackId) => {
+      if (voice.node && voice.startsAt > now) {
+        stopVoice(voice);
+        startVoice(trackId, voice, now, anchorPosition);
+      } else {
+        rescheduleFades(trackId, voice);
+      }
+    });
+  }
+
+  pitchShifter?.setRatio(pitchRatio / newRate);
+  notifyTransport();
+  logger.debug(`⏩ Engine rate: ${newRate.toFixed(2)}x`);
+};
+
+/**
+ * Transpose all voices without changing speed
+ */
+export const setEnginePitch = (semitones: number, cents: number) => {
+  pitchRatio = Math.pow(2, semitones / 12 + cents / 1200);
+  pitchShifter?.setRatio(pitchRatio / rate);
+  logger.debug(`🎼 Engine pitch: ${semitones >= 0 ? '+' : ''}${semitones} st ${cents >= 0 ? '+' : ''}${cents} ct`);
+};
+
+/**
+ * Active loop on the timeline (seconds); `repeat` is false on the last pass of a counted loop
+ */
+export interface LoopRegion {
+  start: number;
+  end: number;
+  repeat: boolean;
+}
+
+/**
+ * Source of the active loop, callback run when a wrap is heard,
+ * and callback run when a loop that doesn't repeat reaches its end
+ */
+export const setLoopHandlers = (
+  region: () => LoopRegion | null,
+  onWrap: () => void,
+  onEnd: () => void
+) => {
+  getLoopRegion = region;
+  onLoopWrap = onWrap;
+  onLoopEnd = onEnd;
+};
+
+// Swap every voice to the loop start at `wrapAt`: the old pass fades out while the new one fades in
+const scheduleLoopWrap = (wrapAt: number, start: number, end: number) => {
+  const crossfade = Math.min(LOOP_CROSSFADE, (end - start) / rate / 4);
+
+  voices.forEach((voice, trackId) => {
+    const { node, envelope } = voice;
+    if (node && envelope) {
+      voice.node = null;
+      voice.envelope = null;
+      const trackPosition = end - getTrackStart(trackId);
+      envelope.gain.cancelScheduledValues(wrapAt);
+      envelope.gain.setValueAtTime(fadeLevelAt(getTrackFades(trackId), getTrackDuration(trackId), trackPosition), wrapAt);
+      envelope.gain.linearRampToValueAtTime(0, wrapAt + crossfade);
+      try {
+        node.stop(wrapAt + crossfade);
+      } catch {
+        // Already stopped
+      }
+    }
+    startVoice(trackId, voice, wrapAt, start, crossfade);
+  });
+
+  pendingWrap = { contextTime: wrapAt, position: start };
+  logger.debug(`🔁 Loop wrap scheduled: ${end.toFixed(3)}s → ${start.toFixed(3)}s @ ${wrapAt.toFixed(3)}`);
+};
+
+const runLoopScheduler = () => {
+  if (!audioContext || !isRunning) return;
+  const now = audioContext.currentTime;
+
+  if (pendingWrap) {
+    if (now < pendingWrap.contextTime) return;
+    // The new pass is audible: move the clock anchors onto it
+    anchorContextTime = pendingWrap.contextTime;
+    anchorPosition = pendingWrap.position;
+    pendingWrap = null;
+    loopEndReported = false;
+    notifyTransport('wrapped');
+    onLoopWrap?.();
+    return;
+  }
+
+  const region = getLoopRegion?.();
+  if (!region || region.end <= region.start) return;
+
+  // Last pass: play through and report the end once it's heard
+  if (!region.repeat) {
+    if (!loopEndReported && positionAt(now) >= region.end) {
+      loopEndReported = true;
+      onLoopEnd?.();
+    }
+    return;
+  }
+
+  // Loop end due within the window (or already passed): plan the wrap on the audio clock
+  const wrapAt = Math.max(getContextTimeAt(region.end), now + SCHEDULE_LOOKAHEAD);
+  if (wrapAt - now <= LOOP_SCHEDULE_AHEAD) {
+    scheduleLoopWrap(wrapAt, region.start, region.end);
+  }
+};
+
+const startLoopScheduler = () => {
+  if (loopTimer !== null) return;
+  loopTimer = setInterval(runLoopScheduler, LOOP_SCHEDULER_INTERVAL);
+};
+
+const stopLoopScheduler = () => {
+  if (loopTimer === null) return;
+  clearInterval(loopTimer);
+  loopTimer = null;
+};
+
+// Drive WaveSurfer cursors from the engine clock
+const updateCursors = (timestamp: number) => {
+  cursorFrame = requestAnimationFrame(updateCursors);
+  if (timestamp - lastCursorUpdate < CURSOR_UPDATE_INTERVAL) return;
+  lastCursorUpdate = timestamp;
+
+  wavesurferInstances.forEach((ws, trackId) => {
+    // Read the clock for every instance: a timeupdate handler may have just seeked
+    ws.setTime(toTrackTime(trackId, getEngineTime(), ws.getDuration()));
+  });
+};
+
+const startCursorLoop = () => {
+  if (cursorFrame !== null) return;
+  lastCursorUpdate = 0;
+  cursorFrame = requestAnimationFrame(updateCursors);
+};
+
+const stopCursorLoop = () => {
+  if (cursorFrame === null) return;
+  cancelAnimationFrame(cursorFrame);
+  cursorFrame = null;
+};
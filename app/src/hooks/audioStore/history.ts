@@ -0,0 +1,186 @@
+/**
+ * Undo/redo history for audioStore
+ * Edits record what they changed; undo/redo restore it on the current piece
+ */
+
+import type { AudioStore, AudioTrack, HistoryEntry, LoopState, TrackMixSnapshot } from '../../types/audio';
+import { logger } from '../../utils/logger';
+import { getPiece, saveAudioFile, savePiece } from '../../utils/indexedDB';
+import { saveTrackSettingsToPiece } from './storage';
+import { syncMixer } from './engine';
+
+const MAX_HISTORY = 100;
+const MERGE_WINDOW = 1000; // ms, edits with the same merge key closer than this are one step (slider drags)
+
+// Mixer state of all tracks, in track order
+export const snapshotMix = (tracks: AudioTrack[]): TrackMixSnapshot[] =>
+  tracks.map(t => ({ id: t.id, volume: t.volume, isMuted: t.isMuted, isSolo: t.isSolo }));
+
+export const createHistoryActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => {
+  // Edits replayed by undo/redo are not recorded again
+  let isReplaying = false;
+  // Edits recorded while groupHistory runs
+  let group: HistoryEntry[] | null = null;
+  let lastMerge: { key: string; time: number } | null = null;
+
+  const saveSettings = (tracks: AudioTrack[], loopState: LoopState) => {
+    const { currentPieceId, playbackState, masterVolume } = get();
+    if (!currentPieceId) return;
+    saveTrackSettingsToPiece(
+      currentPieceId,
+      tracks,
+      loopState,
+      playbackState.playbackRate,
+      masterVolume
+    ).catch(err => console.error('Failed to save after undo/redo:', err));
+  };
+
+  const restoreLoops = (snapshot: LoopState) => {
+    const { loopState, tracks } = get();
+    // The loop being played stays active if it still exists
+    const activeLoopId = snapshot.loops.some(l => l.id === loopState.activeLoopId) ? loopState.activeLoopId : null;
+    const newLoopState = {
+      ...loopState,
+      markers: snapshot.markers,
+      loops: snapshot.loops.map(l => ({ ...l, enabled: l.id === activeLoopId })),
+      activeLoopId,
+    };
+    set({ loopState: newLoopState });
+    saveSettings(tracks, newLoopState);
+  };
+
+  const restoreMix = (snapshot: TrackMixSnapshot[]) => {
+    const current = get().tracks;
+    const restored = snapshot.flatMap(s => {
+      const track = current.find(t => t.id === s.id);
+      return track ? [{ ...track, volume: s.volume, isMuted: s.isMuted, isSolo: s.isSolo }] : [];
+    });
+    // Tracks added since keep their place at the end
+    const tracks = [...restored, ...current.filter(t => !snapshot.some(s => s.id === t.id))];
+    set({ tracks });
+    syncMixer(tracks, get().masterVolume);
+    saveSettings(tracks, get().loopState);
+  };
+
+  const restoreTrack = async (track: AudioTrack, index: number) => {
+    const { currentPieceId } = get();
+    const file = track.file
+      ?? (track.recordedBlob && new File([track.recordedBlob], `${track.name}.wav`, { type: 'audio/wav' }));
+    if (!file) return;
+
+    // Back in the store, the waveform reloads its audio
+    const tracks = [...get().tracks];
+    tracks.splice(Math.min(index, tracks.length), 0, { ...track, isLoading: false });
+    set({ tracks });
+
+    await saveAudioFile(track.id, file);
+    if (currentPieceId) {
+      const piece = await getPiece(currentPieceId);
+      if (piece && !piece.trackIds.includes(track.id)) {
+        piece.trackIds = [...piece.trackIds, track.id];
+        piece.updatedAt = Date.now();
+        await savePiece(piece);
+      }
+    }
+    saveSettings(get().tracks, get().loopState);
+  };
+
+  const apply = async (entry: HistoryEntry, direction: 'undo' | 'redo') => {
+    const isUndo = direction === 'undo';
+    switch (entry.type) {
+      case 'loops':
+        restoreLoops(isUndo ? entry.before : entry.after);
+        break;
+      case 'mixer':
+        restoreMix(isUndo ? entry.before : entry.after);
+        break;
+      case 'removeTrack':
+        if (isUndo) {
+          await restoreTrack(entry.track, entry.index);
+        } else {
+          await get().removeTrack(entry.track.id);
+        }
+        break;
+      case 'renamePiece':
+        await get().renamePiece(entry.pieceId, isUndo ? entry.before : entry.after);
+        break;
+      case 'group': {
+        const entries = isUndo ? [...entry.entries].reverse() : entry.entries;
+        for (const e of entries) await apply(e, direction);
+        break;
+      }
+    }
+  };
+
+  const replay = async (direction: 'undo' | 'redo') => {
+    const { undoStack, redoStack } = get();
+    const from = direction === 'undo' ? undoStack : redoStack;
+    const entry = from[from.length - 1];
+    if (!entry || isReplaying) return;
+
+    logger.debug(`↩️ ${direction}: ${entry.type}`);
+    lastMerge = null;
+    set(direction === 'undo'
+      ? { undoStack: undoStack.slice(0, -1), redoStack: [...redoStack, entry] }
+      : { undoStack: [...undoStack, entry], redoStack: redoStack.slice(0, -1) });
+
+    isReplaying = true;
+    try {
+      await apply(entry, direction);
+    } catch (err) {
+      console.error(`Failed to ${direction}:`, err);
+    } finally {
+      isReplaying = false;
+    }
+  };
+
+  return {
+    recordHistory: (entry: HistoryEntry, mergeKey?: string) => {
+      if (isReplaying) return;
+      if (group) {
+        group.push(entry);
+        return;
+      }
+
+      const { undoStack } = get();
+      const now = Date.now();
+      const previous = undoStack[undoStack.length - 1];
+
+      // Continuous edit: one step, from the state before its first change
+      let recorded = entry;
+      if (mergeKey && lastMerge?.key === mergeKey && now - lastMerge.time < MERGE_WINDOW) {
+        if (previous?.type === 'loops' && entry.type === 'loops') recorded = { ...entry, before: previous.before };
+        if (previous?.type === 'mixer' && entry.type === 'mixer') recorded = { ...entry, before: previous.before };
+      }
+      lastMerge = mergeKey ? { key: mergeKey, time: now } : null;
+
+      const stack = recorded === entry ? undoStack : undoStack.slice(0, -1);
+      set({ undoStack: [...stack, recorded].slice(-MAX_HISTORY), redoStack: [] });
+    },
+
+    groupHistory: (edit: () => void) => {
+      if (group) {
+        edit();
+        return;
+      }
+      group = [];
+      try {
+        edit();
+      } finally {
+        const entries = group;
+        group = null;
+        if (entries.length === 1) get().recordHistory(entries[0]);
+        else if (entries.length > 1) get().recordHistory({ type: 'group', entries });
+      }
+    },
+
+    undo: () => replay('undo'),
+
+    redo: () => replay('redo'),
+
+    clearHistory: () => {
+      lastMerge = null;
+      set({ undoStack: [], redoStack: [] });
+    },
+  };
+};
@@ -3,9 +3,55 @@
  * Handles loop panel, edit mode, markers (add/remove/update), and loops (create/remove/toggle)
  */
 
-import type { AudioStore } from '../../types/audio';
+import type { AudioStore, Loop, LoopCompleteAction, LoopPreRoll, Marker, SpeedTrainer } from '../../types/audio';
 import { logger } from '../../utils/logger';
 import { saveTrackSettingsToPiece } from './storage';
+import { DEFAULT_LOOP_PRE_ROLL, DEFAULT_SPEED_TRAINER, getLoopEntryTime, snapToGrid } from './shared';
+import { getEngineTime, getTrackBuffer, getTrackOffset } from './engine';
+import { findNearestZeroCrossing } from '../../utils/audioUtils';
+
+const MAX_MARKERS = 2000;
+const MAX_LOOPS = 1000;
+
+// Shortest A/B loop (seconds), avoids a double press creating an empty loop
+const MIN_QUICK_LOOP_LENGTH = 0.1;
+
+// Zero crossings further than this from the pointer are ignored (low notes cross rarely)
+const ZERO_CROSSING_WINDOW = 0.02;
+
+// Apply the snap mode to a marker position (timeline seconds)
+const snapMarkerTime = (time: number, { snapMode, beatGrid, tracks }: AudioStore) => {
+  if (snapMode === 'beat' || snapMode === 'bar') {
+    return snapToGrid(time, beatGrid, snapMode);
+  }
+  if (snapMode === 'zeroCrossing') {
+    // Reference = top track with decoded audio, searched in its own file time
+    const reference = tracks.find(t => getTrackBuffer(t.id));
+    const buffer = reference && getTrackBuffer(reference.id);
+    if (!reference || !buffer) return time;
+    const shift = -getTrackOffset(reference.id);
+    const crossing = findNearestZeroCrossing(buffer, time + shift, ZERO_CROSSING_WINDOW);
+    return crossing !== null ? Math.max(0, crossing - shift) : time;
+  }
+  return time;
+};
+
+// Remove markers that never became part of a loop, without an undo step
+const discardMarkers = (ids: string[], set: (partial: Partial<AudioStore>) => void, get: () => AudioStore) => {
+  const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
+  const newLoopState = { ...loopState, markers: loopState.markers.filter(m => !ids.includes(m.id)) };
+  set({ loopState: newLoopState });
+
+  if (currentPieceId) {
+    saveTrackSettingsToPiece(
+      currentPieceId,
+      tracks,
+      newLoopState,
+      playbackState.playbackRate,
+      masterVolume
+    ).catch(err => console.error('Failed to save after marker rollback:', err));
+  }
+};
 
 export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
   toggleLoopPanel: () => {
@@ -25,12 +71,13 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     });
   },
 
-  addMarker: (time: number, label?: string) => {
+  addMarker: (time: number, label?: string, options?: { snap?: boolean }) => {
     const { loopState, playbackState, currentPieceId, tracks, masterVolume } = get();
+    if (options?.snap !== false) time = snapMarkerTime(time, get());
 
-    // Limit markers
-    if (loopState.markers.length >= 20) {
-      console.warn('⚠️ Maximum 20 markers reached');
+    // Safety cap, far above real use (hundreds of markers on long pieces)
+    if (loopState.markers.length >= MAX_MARKERS) {
+      set({ loopNotice: { key: 'markerLimit', values: { max: MAX_MARKERS } } });
       return '';
     }
 
@@ -102,6 +149,7 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     };
 
     set({ loopState: newLoopState });
+    get().recordHistory({ type: 'loops', before: loopState, after: newLoopState });
 
     // Save to piece
     if (currentPieceId) {
@@ -115,8 +163,9 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     }
   },
 
-  updateMarkerTime: (id: string, time: number) => {
+  updateMarkerTime: (id: string, time: number, options?: { snap?: boolean }) => {
     const { loopState, playbackState, currentPieceId, tracks, masterVolume } = get();
+    if (options?.snap !== false) time = snapMarkerTime(time, get());
     const newMarkers = loopState.markers.map(m =>
       m.id === id
         ? { ...m, time: Math.max(0, Math.min(time, playbackState.duration)) }
@@ -131,6 +180,7 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     };
 
     set({ loopState: newLoopState });
+    get().recordHistory({ type: 'loops', before: loopState, after: newLoopState }, `marker-time-${id}`);
 
     // Save to piece
     if (currentPieceId) {
@@ -144,12 +194,40 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     }
   },
 
+  updateMarker: (id: string, updates: Partial<Pick<Marker, 'label' | 'color' | 'kind'>>) => {
+    const { loopState, playbackState, currentPieceId, tracks, masterVolume } = get();
+
+    // Empty label removes it
+    const changes = updates.label !== undefined ? { ...updates, label: updates.label.trim() || undefined } : updates;
+    const newMarkers = loopState.markers.map(m => (m.id === id ? { ...m, ...changes } : m));
+
+    logger.debug(`📍 Updated marker ${id}`, changes);
+
+    const newLoopState = {
+      ...loopState,
+      markers: newMarkers,
+    };
+
+    set({ loopState: newLoopState });
+
+    // Save to piece
+    if (currentPieceId) {
+      saveTrackSettingsToPiece(
+        currentPieceId,
+        tracks,
+        newLoopState,
+        playbackState.playbackRate,
+        masterVolume
+      ).catch(err => console.error('Failed to save marker:', err));
+    }
+  },
+
   createLoop: (startMarkerId: string, endMarkerId: string) => {
     const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
 
-    // Limit loops
-    if (loopState.loops.length >= 10) {
-      console.warn('⚠️ Maximum 10 loops reached');
+    // Safety cap, far above real use
+    if (loopState.loops.length >= MAX_LOOPS) {
+      set({ loopNotice: { key: 'loopLimit', values: { max: MAX_LOOPS } } });
       return '';
     }
 
@@ -161,6 +239,13 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
       return '';
     }
 
+    // Both ends snapped onto the same grid line
+    if (startMarker.time === endMarker.time) {
+      console.warn('⚠️ Loop start and end are at the same time');
+      set({ loopNotice: { key: 'loopTooShort' } });
+      return '';
+    }
+
     // Ensure start < end
     const [start, end] = startMarker.time < endMarker.time
       ? [startMarkerId, endMarkerId]
@@ -204,6 +289,35 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     return id;
   },
 
+  addLoop: (start: number, end: number, options?: { snap?: boolean }) => {
+    const { loopState, addMarker, createLoop } = get();
+    const [startTime, endTime] = options?.snap !== false
+      ? [snapMarkerTime(start, get()), snapMarkerTime(end, get())]
+      : [start, end];
+
+    // Checked before adding the markers, so a refused loop leaves none behind
+    if (loopState.loops.length >= MAX_LOOPS) {
+      set({ loopNotice: { key: 'loopLimit', values: { max: MAX_LOOPS } } });
+      return '';
+    }
+    if (startTime === endTime) {
+      set({ loopNotice: { key: 'loopTooShort' } });
+      return '';
+    }
+
+    const startMarkerId = addMarker(startTime, undefined, { snap: false });
+    if (!startMarkerId) return '';
+    const endMarkerId = addMarker(endTime, undefined, { snap: false });
+    if (!endMarkerId) {
+      discardMarkers([startMarkerId], set, get);
+      return '';
+    }
+
+    const loopId = createLoop(startMarkerId, endMarkerId);
+    if (!loopId) discardMarkers([startMarkerId, endMarkerId], set, get);
+    return loopId;
+  },
+
   removeLoop: (id: string) => {
     const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
     const newLoops = loopState.loops.filter(l => l.id !== id);
@@ -217,6 +331,7 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
     };
 
     set({ loopState: newLoopState });
+    get().recordHistory({ type: 'loops', before: loopState, after: newLoopState });
 
     // Save to piece
     if (currentPieceId) {
@@ -253,7 +368,10 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
       activeLoopId: newEnabled ? id : null,
     };
 
-    set({ loopState: newLoopState });
+    set({
+      loopState: newLoopState,
+      loopRepeatProgress: newEnabled ? { loopId: id, pass: 1 } : null,
+    });
 
     // Save to piece
     if (currentPieceId) {
@@ -266,14 +384,21 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
       ).catch(err => console.error('Failed to save loop toggle:', err));
     }
 
-    // If enabling, seek to the start of the loop
+    // Speed trainer ramps restart from the start rate
     if (newEnabled) {
-      const startMarker = loopState.markers.find(m => m.id === loop.startMarkerId);
-      if (startMarker) {
-        logger.debug(`⏩ Seeking to loop start: ${startMarker.time.toFixed(2)}s`);
+      get().restartSpeedTrainer(id);
+    } else {
+      set({ speedTrainerProgress: null });
+    }
+
+    // If enabling, seek to the start of the loop (pre-roll included)
+    if (newEnabled) {
+      const entryTime = getLoopEntryTime(loop, loopState.markers, get().beatGrid);
+      if (entryTime !== null) {
+        logger.debug(`⏩ Seeking to loop start: ${entryTime.toFixed(2)}s`);
         // Set flag to preserve loop on next seek
         set({ _preserveLoopOnNextSeek: true });
-        seek(startMarker.time);
+        seek(entryTime);
       }
     }
   },
@@ -296,9 +421,17 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
 
     set({
       loopState: newLoopState,
+      loopRepeatProgress: id ? { loopId: id, pass: 1 } : null,
       _preserveLoopOnNextSeek: id !== null,
     });
 
+    // Speed trainer ramps restart from the start rate
+    if (id) {
+      get().restartSpeedTrainer(id);
+    } else {
+      set({ speedTrainerProgress: null });
+    }
+
     // Save to piece
     if (currentPieceId) {
       saveTrackSettingsToPiece(
@@ -310,4 +443,223 @@ export const createLoopActions = (set: (partial: Partial<AudioStore> | ((state:
       ).catch(err => console.error('Failed to save active loop:', err));
     }
   },
+
+  updateLoopSpeedTrainer: (loopId: string, updates: Partial<SpeedTrainer>) => {
+    const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
+    const loop = loopState.loops.find(l => l.id === loopId);
+    if (!loop) return;
+
+    const speedTrainer = { ...DEFAULT_SPEED_TRAINER, ...loop.speedTrainer, ...updates };
+    const newLoopState = {
+      ...loopState,
+      loops: loopState.loops.map(l => l.id === loopId ? { ...l, speedTrainer } : l),
+    };
+
+    logger.debug(`🏋️ Speed trainer for ${loopId}: ${speedTrainer.enabled ? 'ON' : 'OFF'} ${speedTrainer.startRate}x → ${speedTrainer.targetRate}x (+${speedTrainer.increment} every ${speedTrainer.cleanReps} clean reps)`);
+
+    set({ loopState: newLoopState });
+
+    // Save to piece
+    if (currentPieceId) {
+      saveTrackSettingsToPiece(
+        currentPieceId,
+        tracks,
+        newLoopState,
+        playbackState.playbackRate,
+        masterVolume
+      ).catch(err => console.error('Failed to save speed trainer:', err));
+    }
+
+    // Apply right away when editing the active loop
+    if (loopState.activeLoopId === loopId) {
+      get().restartSpeedTrainer(loopId);
+    }
+  },
+
+  updateLoopPreRoll: (loopId: string, updates: Partial<LoopPreRoll>) => {
+    const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
+    const loop = loopState.loops.find(l => l.id === loopId);
+    if (!loop) return;
+
+    const preRoll = { ...DEFAULT_LOOP_PRE_ROLL, ...loop.preRoll, ...updates };
+    const newLoopState = {
+      ...loopState,
+      loops: loopState.loops.map(l => l.id === loopId ? { ...l, preRoll } : l),
+    };
+
+    logger.debug(`⏮️ Pre-roll for ${loopId}: ${preRoll.enabled ? 'ON' : 'OFF'} ${preRoll.amount} ${preRoll.unit}${preRoll.everyPass ? ' every pass' : ''}${preRoll.countIn ? ', count-in' : ''}`);
+
+    set({ loopState: newLoopState });
+
+    // Save to piece
+    if (currentPieceId) {
+      saveTrackSettingsToPiece(
+        currentPieceId,
+        tracks,
+        newLoopState,
+        playbackState.playbackRate,
+        masterVolume
+      ).catch(err => console.error('Failed to save pre-roll:', err));
+    }
+  },
+
+  restartSpeedTrainer: (loopId: string) => {
+    const loop = get().loopState.loops.find(l => l.id === loopId);
+    if (!loop?.speedTrainer?.enabled) {
+      set({ speedTrainerProgress: null });
+      return;
+    }
+
+    logger.debug(`🏋️ Speed trainer started at ${loop.speedTrainer.startRate.toFixed(2)}x`);
+    set({ speedTrainerProgress: { loopId, cleanReps: 0, hadMistake: false } });
+    get().setPlaybackRate(loop.speedTrainer.startRate);
+  },
+
+  handleLoopWrap: (loopId: string) => {
+    const { loopState, playbackState, speedTrainerProgress, loopRepeatProgress } = get();
+
+    // Count passes for loops with a repeat count
+    const pass = loopRepeatProgress?.loopId === loopId ? loopRepeatProgress.pass + 1 : 2;
+    set({ loopRepeatProgress: { loopId, pass } });
+
+    const trainer = loopState.loops.find(l => l.id === loopId)?.speedTrainer;
+    if (!trainer?.enabled) return;
+
+    const progress = speedTrainerProgress?.loopId === loopId
+      ? speedTrainerProgress
+      : { loopId, cleanReps: 0, hadMistake: false };
+
+    // A flagged repetition does not count and resets the streak
+    let cleanReps = progress.hadMistake ? 0 : progress.cleanReps + 1;
+    const rate = playbackState.playbackRate;
+
+    if (cleanReps >= trainer.cleanReps && rate < trainer.targetRate) {
+      const newRate = Math.min(trainer.targetRate, Math.round((rate + trainer.increment) * 100) / 100);
+      logger.debug(`🏋️ Speed trainer step: ${rate.toFixed(2)}x → ${newRate.toFixed(2)}x`);
+      get().setPlaybackRate(newRate);
+      cleanReps = 0;
+    }
+
+    set({ speedTrainerProgress: { loopId, cleanReps, hadMistake: false } });
+  },
+
+  updateLoopRepeat: (loopId: string, updates: { repeatCount?: number; onComplete?: LoopCompleteAction }) => {
+    const { loopState, currentPieceId, tracks, playbackState, masterVolume } = get();
+    const loop = loopState.loops.find(l => l.id === loopId);
+    if (!loop) return;
+
+    const repeatCount = Math.max(0, Math.round(updates.repeatCount ?? loop.repeatCount ?? 0));
+    const onComplete = updates.onComplete ?? loop.onComplete ?? 'continue';
+    const newLoopState = {
+      ...loopState,
+      loops: loopState.loops.map(l => l.id === loopId ? { ...l, repeatCount, onComplete } : l),
+    };
+
+    logger.debug(`🔢 Repeat for ${loopId}: ${repeatCount > 0 ? `${repeatCount}x then ${onComplete}` : 'forever'}`);
+
+    set({ loopState: newLoopState });
+
+    // Save to piece
+    if (currentPieceId) {
+      saveTrackSettingsToPiece(
+        currentPieceId,
+        tracks,
+        newLoopState,
+        playbackState.playbackRate,
+        masterVolume
+      ).catch(err => console.error('Failed to save loop repeat:', err));
+    }
+  },
+
+  handleLoopComplete: (loopId: string) => {
+    const { loopState, beatGrid, pause, seek, setActiveLoop } = get();
+    const loop = loopState.loops.find(l => l.id === loopId);
+    if (!loop) return;
+
+    const action = loop.onComplete ?? 'continue';
+    logger.debug(`🏁 Loop ${loopId} completed ${loop.repeatCount} passes: ${action}`);
+
+    if (action === 'stop') {
+      // Ready for another set: back to the loop entry, counter reset
+      pause();
+      const entryTime = getLoopEntryTime(loop, loopState.markers, beatGrid);
+      set({ _preserveLoopOnNextSeek: true, loopRepeatProgress: { loopId, pass: 1 } });
+      if (entryTime !== null) seek(entryTime);
+      return;
+    }
+
+    if (action === 'next') {
+      // Next loop in timeline order
+      const startOf = (l: Loop) => loopState.markers.find(m => m.id === l.startMarkerId)?.time ?? 0;
+      const next = loopState.loops
+        .filter(l => l.id !== loopId && startOf(l) > startOf(loop))
+        .sort((a, b) => startOf(a) - startOf(b))[0];
+      const entryTime = next ? getLoopEntryTime(next, loopState.markers, beatGrid) : null;
+      if (next && entryTime !== null) {
+        setActiveLoop(next.id);
+        seek(entryTime);
+        return;
+      }
+    }
+
+    // Continue (or no next loop): leave the loop and play on
+    setActiveLoop(null);
+  },
+
+  captureQuickLoopPoint: () => {
+    const { quickLoop, addMarker, removeMarker, createLoop, setActiveLoop } = get();
+    const { markers, loops } = get().loopState;
+    const time = getEngineTime();
+
+    // Third press: remove the quick loop and its markers
+    if (quickLoop?.loopId && loops.some(l => l.id === quickLoop.loopId)) {
+      logger.debug('🅰️🅱️ Quick loop cleared');
+      get().groupHistory(() => {
+        removeMarker(quickLoop.startMarkerId);
+        if (quickLoop.endMarkerId) removeMarker(quickLoop.endMarkerId);
+      });
+      set({ quickLoop: null });
+      return;
+    }
+
+    // Second press: point B closes the loop and enables it
+    const startMarker = markers.find(m => m.id === quickLoop?.startMarkerId);
+    if (quickLoop && startMarker) {
+      // Compared once snapped: both points may land on the same grid line
+      const endTime = snapMarkerTime(time, get());
+      if (Math.abs(endTime - startMarker.time) < MIN_QUICK_LOOP_LENGTH) return;
+
+      const endMarkerId = addMarker(endTime, 'B', { snap: false });
+      if (!endMarkerId) return;
+      const loopId = createLoop(startMarker.id, endMarkerId);
+      if (!loopId) {
+        // The capture is abandoned: A goes too, so the next press starts over
+        discardMarkers([startMarker.id, endMarkerId], set, get);
+        set({ quickLoop: null });
+        return;
+      }
+      logger.debug(`🅰️🅱️ Quick loop B at ${endTime.toFixed(2)}s`);
+      setActiveLoop(loopId);
+      set({ quickLoop: { startMarkerId: startMarker.id, endMarkerId, loopId } });
+      return;
+    }
+
+    // First press (or the previous capture was deleted): point A
+    const startMarkerId = addMarker(time, 'A');
+    if (!startMarkerId) return;
+    logger.debug(`🅰️🅱️ Quick loop A at ${time.toFixed(2)}s`);
+    set({ quickLoop: { startMarkerId, endMarkerId: null, loopId: null } });
+  },
+
+  dismissLoopNotice: () => {
+    set({ loopNotice: null });
+  },
+
+  markLoopMistake: () => {
+    const { speedTrainerProgress } = get();
+    if (!speedTrainerProgress) return;
+
+    logger.debug('🏋️ Repetition flagged as not clean');
+    set({ speedTrainerProgress: { ...speedTrainerProgress, hadMistake: true } });
+  },
 });
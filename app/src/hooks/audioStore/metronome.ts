@@ -0,0 +1,302 @@
+/**
+ * Metronome actions for audioStore
+ * Clicks are generated on the shared AudioContext from the piece's beat grid and
+ * scheduled against the engine clock, so they stay locked on loop, seek and rate changes.
+ */
+
+import type { AudioStore, BeatGrid, MetronomeState, TempoAnalysis } from '../../types/audio';
+import { logger } from '../../utils/logger';
+import { detectTempo } from '../../utils/tempoDetection';
+import {
+  getTempoAnalysis,
+  saveTempoAnalysis,
+  updatePieceSettings,
+} from '../../utils/indexedDB';
+import { DEFAULT_BEAT_GRID, DEFAULT_METRONOME, getBeatLength } from './shared';
+import {
+  getContextTimeAt,
+  getEngineContext,
+  getEnginePositionAt,
+  getMasterInput,
+  getPendingWrap,
+  isEngineRunning,
+  loadTrackBuffer,
+  subscribeToTransport,
+  type TransportChange,
+} from './engine';
+
+// Scheduler timing (classic lookahead pattern)
+const SCHEDULER_INTERVAL = 25; // ms between scheduler runs
+const SCHEDULE_AHEAD = 0.1; // seconds of clicks scheduled in advance
+
+// Click sound
+const ACCENT_FREQUENCY = 1500;
+const BEAT_FREQUENCY = 1000;
+const CLICK_DURATION = 0.05;
+
+let grid: BeatGrid = DEFAULT_BEAT_GRID;
+let settings: MetronomeState = DEFAULT_METRONOME;
+
+// Count-in range of the active loop's pre-roll (clicks there even with the metronome off)
+let getCountInRange: (() => { start: number; end: number } | null) | null = null;
+
+let output: GainNode | null = null;
+// Count-in clicks have their own level: muting the metronome keeps them
+let countInOutput: GainNode | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let nextBeat: number | null = null; // Index of the next beat to schedule
+let wrapBeat: number | null = null; // Same, for the pass after a planned loop wrap
+const scheduled = new Set<OscillatorNode>();
+
+const beatDuration = () => getBeatLength(grid);
+
+// Timeline position of beat n (beat 0 = first downbeat)
+const beatTime = (n: number) => grid.downbeatOffset + n * beatDuration();
+
+const getOutputs = () => {
+  const context = getEngineContext();
+  const master = getMasterInput();
+  if (!context || !master) return null;
+
+  if (!output || output.context !== context) {
+    output = context.createGain();
+    output.gain.value = settings.isMuted ? 0 : settings.volume;
+    output.connect(master);
+  }
+  if (!countInOutput || countInOutput.context !== context) {
+    countInOutput = context.createGain();
+    countInOutput.gain.value = settings.volume;
+    countInOutput.connect(master);
+  }
+  return { output, countInOutput };
+};
+
+const applyGain = () => {
+  const outputs = getOutputs();
+  if (!outputs) return;
+  // Clicks are only scheduled when wanted, mute only applies to the metronome itself
+  const now = outputs.output.context.currentTime;
+  outputs.output.gain.setValueAtTime(settings.isMuted ? 0 : settings.volume, now);
+  outputs.countInOutput.gain.setValueAtTime(settings.volume, now);
+};
+
+const scheduleClick = (when: number, isDownbeat: boolean, isCountIn: boolean) => {
+  const outputs = getOutputs();
+  if (!outputs) return;
+  const node = isCountIn ? outputs.countInOutput : outputs.output;
+  const context = node.context;
+
+  const osc = context.createOscillator();
+  const envelope = context.createGain();
+  osc.frequency.value = isDownbeat ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+  envelope.gain.setValueAtTime(0, when);
+  envelope.gain.linearRampToValueAtTime(isDownbeat ? 1 : 0.6, when + 0.001);
+  envelope.gain.exponentialRampToValueAtTime(0.001, when + CLICK_DURATION);
+
+  osc.connect(envelope);
+  envelope.connect(node);
+  osc.onended = () => {
+    scheduled.delete(osc);
+    envelope.disconnect();
+  };
+  osc.start(when);
+  osc.stop(when + CLICK_DURATION + 0.01);
+  scheduled.add(osc);
+};
+
+// Drop clicks scheduled with clock anchors that are no longer valid
+const cancelScheduled = () => {
+  scheduled.forEach((osc) => {
+    try {
+      osc.stop();
+    } catch {
+      // Already stopped
+    }
+  });
+  scheduled.clear();
+  nextBeat = null;
+  wrapBeat = null;
+};
+
+// First beat at or after a timeline position (pickup beats before the downbeat included)
+const firstBeatFrom = (position: number) => {
+  const firstBeat = Math.ceil(-grid.downbeatOffset / beatDuration() - 1e-6);
+  return Math.max(firstBeat, Math.ceil((position - grid.downbeatOffset) / beatDuration() - 1e-6));
+};
+
+const clickBeat = (n: number, when: number, countIn: { start: number; end: number } | null) => {
+  const time = beatTime(n);
+  // Count-in clicks follow the beat grid inside the pre-roll
+  const isCountIn = !!countIn && time >= countIn.start - 1e-6 && time < countIn.end - 1e-6;
+  if (settings.enabled || isCountIn) {
+    const barBeat = ((n % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar;
+    scheduleClick(when, barBeat === 0, isCountIn);
+  }
+};
+
+const schedule = () => {
+  const context = getEngineContext();
+  if (!context || !isEngineRunning()) return;
+
+  const countIn = getCountInRange?.() ?? null;
+  if (!settings.enabled && !countIn) return;
+
+  const now = context.currentTime;
+  const horizon = now + SCHEDULE_AHEAD;
+  const wrap = getPendingWrap();
+
+  // Current pass, up to the loop wrap when one is planned
+  if (nextBeat === null) {
+    nextBeat = firstBeatFrom(getEnginePositionAt(now));
+  }
+  const passEnd = wrap ? Math.min(horizon, wrap.contextTime) : horizon;
+  while (getContextTimeAt(beatTime(nextBeat)) < passEnd) {
+    const when = getContextTimeAt(beatTime(nextBeat));
+    if (when >= now) clickBeat(nextBeat, when, countIn);
+    nextBeat++;
+  }
+
+  // Next pass, timed from the wrap so the beat on the loop start isn't missed
+  if (wrap && wrap.contextTime < horizon) {
+    if (wrapBeat === null) {
+      wrapBeat = firstBeatFrom(wrap.position);
+    }
+    const wrapTimeOf = (n: number) => wrap.contextTime + (beatTime(n) - wrap.position) / wrap.rate;
+    while (wrapTimeOf(wrapBeat) < horizon) {
+      const when = wrapTimeOf(wrapBeat);
+      if (when >= now) clickBeat(wrapBeat, when, countIn);
+      wrapBeat++;
+    }
+  }
+};
+
+const updateScheduler = (change: TransportChange = 'moved') => {
+  if (change === 'wrapped') {
+    // Clicks of the new pass are already scheduled: carry on from there
+    nextBeat = wrapBeat;
+    wrapBeat = null;
+  } else {
+    cancelScheduled();
+  }
+
+  if (syncTimer()) schedule();
+};
+
+// Run the lookahead only while clicks are wanted (metronome on, or a count-in to play)
+const syncTimer = () => {
+  const shouldRun = (settings.enabled || !!getCountInRange?.()) && isEngineRunning();
+  if (shouldRun && timer === null) {
+    timer = setInterval(schedule, SCHEDULER_INTERVAL);
+  } else if (!shouldRun && timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+  return shouldRun;
+};
+
+subscribeToTransport(updateScheduler);
+
+/**
+ * Source of the count-in range, read on every scheduler run
+ */
+export const setCountInSource = (source: () => { start: number; end: number } | null) => {
+  getCountInRange = source;
+  updateScheduler();
+};
+
+/**
+ * Re-check the count-in after loop edits (a loop with a count-in activated while playing)
+ */
+export const refreshCountIn = () => {
+  if (syncTimer()) schedule();
+};
+
+/**
+ * Apply a piece's grid and metronome settings to the click generator
+ */
+export const configureMetronome = (beatGrid: BeatGrid, metronome: MetronomeState) => {
+  grid = beatGrid;
+  settings = metronome;
+  applyGain();
+  updateScheduler();
+  logger.debug(`🥁 Metronome ${metronome.enabled ? 'on' : 'off'}: ${beatGrid.bpm} BPM ${beatGrid.beatsPerBar}/${beatGrid.beatUnit}, downbeat @ ${beatGrid.downbeatOffset.toFixed(3)}s`);
+};
+
+export const createMetronomeActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
+  setBeatGrid: (updates: Partial<BeatGrid>) => {
+    const beatGrid = { ...get().beatGrid, ...updates };
+    if (!(beatGrid.bpm > 0) || !(beatGrid.beatsPerBar > 0) || !(beatGrid.beatUnit > 0)) {
+      console.warn('⚠️ Invalid beat grid ignored:', beatGrid);
+      return;
+    }
+
+    set({ beatGrid });
+    configureMetronome(beatGrid, get().metronome);
+
+    // Save to piece
+    const { currentPieceId } = get();
+    if (currentPieceId) {
+      updatePieceSettings(currentPieceId, { beatGrid })
+        .catch(err => console.error('Failed to save beat grid:', err));
+    }
+  },
+
+  setMetronome: (updates: Partial<MetronomeState>) => {
+    const metronome = { ...get().metronome, ...updates };
+
+    set({ metronome });
+    configureMetronome(get().beatGrid, metronome);
+
+    // Save to piece
+    const { currentPieceId } = get();
+    if (currentPieceId) {
+      updatePieceSettings(currentPieceId, { metronome })
+        .catch(err => console.error('Failed to save metronome settings:', err));
+    }
+  },
+
+  analyzeTrackTempo: async (trackId: string, file: Blob) => {
+    try {
+      // Cached result: never analyse the same track twice
+      let analysis: TempoAnalysis | null = await getTempoAnalysis(trackId);
+
+      if (!analysis) {
+        const buffer = await loadTrackBuffer(trackId, file);
+        if (!buffer) return;
+
+        const estimate = detectTempo(buffer, get().beatGrid.beatsPerBar);
+        if (!estimate) return;
+
+        analysis = { trackId, ...estimate, analyzedAt: Date.now() };
+        await saveTempoAnalysis(analysis);
+      }
+
+      // Track removed or piece changed while analysing
+      if (!get().tracks.some(t => t.id === trackId)) return;
+
+      const { beatGrid } = get();
+      const isSameGrid = Math.abs(beatGrid.bpm - analysis.bpm) < 0.1 &&
+        Math.abs(beatGrid.downbeatOffset - analysis.downbeatOffset) < 0.001;
+      if (!isSameGrid) {
+        set({ tempoSuggestion: analysis });
+      }
+    } catch (error) {
+      console.error('Failed to analyse track tempo:', error);
+    }
+  },
+
+  applyTempoSuggestion: () => {
+    const { tempoSuggestion, setBeatGrid } = get();
+    if (!tempoSuggestion) return;
+
+    setBeatGrid({
+      bpm: tempoSuggestion.bpm,
+      downbeatOffset: tempoSuggestion.downbeatOffset,
+    });
+    set({ tempoSuggestion: null });
+  },
+
+  dismissTempoSuggestion: () => {
+    set({ tempoSuggestion: null });
+  },
+});
@@ -0,0 +1,124 @@
+/**
+ * Offline mixdown of the current mix
+ * Rebuilds the playback graph (volume, pan, EQ, offset/trim/fades, mute/solo, speed, pitch, master, limiter)
+ * on an OfflineAudioContext and encodes the result as WAV.
+ */
+
+import type { AudioTrack } from '../../types/audio';
+import { logger } from '../../utils/logger';
+import { PitchShifter } from '../../utils/pitchShifter';
+import { audioBufferToWavBlob } from '../../utils/audioUtils';
+import { applyTrackEQ, createLimiter, createTrackFilters, getEngineContext, getTrackBuffer, scheduleFades } from './engine';
+
+const PROGRESS_STEPS = 20; // Rendering is suspended this many times to report progress
+
+export interface MixdownOptions {
+  tracks: AudioTrack[];
+  masterVolume: number;
+  limiterEnabled: boolean;
+  playbackRate: number;
+  pitchSemitones: number;
+  pitchCents: number;
+  start: number; // Timeline range (seconds)
+  end: number;
+}
+
+/**
+ * Render the audible tracks over a timeline range to a stereo WAV blob
+ * `onProgress` receives values from 0 to 1
+ */
+export const renderMixdown = async (
+  options: MixdownOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const { tracks, masterVolume, limiterEnabled, playbackRate, pitchSemitones, pitchCents, start, end } = options;
+
+  const hasSoloedTracks = tracks.some(t => t.isSolo);
+  const audible = tracks.filter(t => !t.isMuted && (!hasSoloedTracks || t.isSolo) && t.volume > 0);
+  const buffers = audible
+    .map(track => ({ track, buffer: getTrackBuffer(track.id) }))
+    .filter((v): v is { track: AudioTrack; buffer: AudioBuffer } => v.buffer !== null);
+
+  if (buffers.length === 0) {
+    throw new Error('No audible track to export');
+  }
+  if (!(end > start)) {
+    throw new Error(`Invalid export range: ${start}-${end}`);
+  }
+
+  const sampleRate = getEngineContext()?.sampleRate ?? buffers[0].buffer.sampleRate;
+  const duration = (end - start) / playbackRate; // Output duration at the current speed
+  const length = Math.ceil(duration * sampleRate);
+  const context = new OfflineAudioContext(2, length, sampleRate);
+
+  // Same chain as live playback: tracks → mix bus → pitch correction → master → limiter
+  const mixBus = context.createGain();
+  const pitchShifter = new PitchShifter(context);
+  pitchShifter.setRatio(Math.pow(2, pitchSemitones / 12 + pitchCents / 1200) / playbackRate);
+  const masterGain = context.createGain();
+  masterGain.gain.value = masterVolume;
+
+  mixBus.connect(pitchShifter.input);
+  pitchShifter.output.connect(masterGain);
+  if (limiterEnabled) {
+    const limiter = createLimiter(context);
+    masterGain.connect(limiter);
+    limiter.connect(context.destination);
+  } else {
+    masterGain.connect(context.destination);
+  }
+
+  buffers.forEach(({ track, buffer }) => {
+    // Range start inside this track's own trimmed audio (negative: the track comes in later)
+    const trackStart = start - track.timeOffset - track.trimStart;
+    const trackDuration = buffer.duration - track.trimStart - track.trimEnd;
+    if (trackStart >= trackDuration) return;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRate;
+
+    const envelope = context.createGain();
+    scheduleFades(
+      envelope.gain,
+      0,
+      trackStart,
+      trackDuration,
+      { fadeIn: track.fadeIn ?? 0, fadeOut: track.fadeOut ?? 0 },
+      playbackRate
+    );
+    const gain = context.createGain();
+    gain.gain.value = track.volume;
+    const filters = createTrackFilters(context);
+    applyTrackEQ(filters, track.eq, 0);
+    const panner = context.createStereoPanner();
+    panner.pan.value = track.pan;
+
+    source.connect(envelope);
+    envelope.connect(gain);
+    gain.connect(filters.highPass);
+    filters.lowPass.connect(panner);
+    panner.connect(mixBus);
+    const skipped = Math.max(0, trackStart);
+    source.start(Math.max(0, -trackStart) / playbackRate, track.trimStart + skipped, trackDuration - skipped);
+  });
+
+  // Progress: suspend at regular points, report, resume
+  if (onProgress) {
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      const time = (duration * step) / PROGRESS_STEPS;
+      context.suspend(time)
+        .then(() => {
+          onProgress(step / PROGRESS_STEPS);
+          return context.resume();
+        })
+        .catch(err => console.warn('Mixdown progress suspend failed:', err));
+    }
+  }
+
+  logger.debug(`🎚️ Rendering mixdown: ${buffers.length} tracks, ${start.toFixed(2)}-${end.toFixed(2)}s @ ${playbackRate}x`);
+  const rendered = await context.startRendering();
+  onProgress?.(1);
+
+  return audioBufferToWavBlob(rendered);
+};
@@ -3,7 +3,7 @@
  * Handles create, load, delete, rename, list operations for pieces
  */
 
-import type { AudioStore, AudioTrack, Piece, PieceWithStats } from '../../types/audio';
+import type { AudioStore, AudioTrack, Piece, PieceWithStats, TempoAnalysis } from '../../types/audio';
 import { logger } from '../../utils/logger';
 import {
   getPiece,
@@ -19,12 +19,23 @@ import {
   clearAllAudioFiles,
   clearAllPieces,
   clearAllPieceSettings,
+  getTempoAnalysis,
+  deleteTempoAnalysis,
+  clearAllTempoAnalyses,
+  getRoutinesForPiece,
+  deleteRoutinesForPiece,
+  clearAllRoutines,
 } from '../../utils/indexedDB';
-import { saveCurrentPieceId } from './shared';
+import { DEFAULT_BEAT_GRID, DEFAULT_METRONOME, saveCurrentPieceId } from './shared';
 import { cleanOrphanedData } from './storage';
+import { releaseTracksExcept, seekEngine, setEngineLimiter, setEnginePitch } from './engine';
+import { configureMetronome } from './metronome';
 
 export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
   createPiece: async (name: string): Promise<string> => {
+    // A running routine hands its tracks back with the user's mix
+    get().stopRoutine();
+
     const id = `piece-${Date.now()}-${Math.random()}`;
     const piece: Piece = {
       id,
@@ -41,10 +52,15 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
       trackSettings: [],
       loopState: { markers: [], loops: [], activeLoopId: null },
       playbackRate: 1.0,
+      pitchSemitones: 0,
+      pitchCents: 0,
       masterVolume: 1.0,
+      limiterEnabled: true,
+      beatGrid: DEFAULT_BEAT_GRID,
+      metronome: DEFAULT_METRONOME,
     });
 
-    set({ currentPieceId: id });
+    set({ currentPieceId: id, undoStack: [], redoStack: [] });
     saveCurrentPieceId(id);
 
     logger.debug(`🎼 Created piece: ${name} (${id})`);
@@ -52,9 +68,10 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   loadPiece: async (id: string): Promise<void> => {
-    const { pause } = get();
+    const { pause, stopRoutine } = get();
 
-    // Pause playback
+    // Pause playback (a running routine puts the user's mix back first)
+    stopRoutine();
     pause();
 
     const piece = await getPiece(id);
@@ -79,6 +96,10 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
         // Recordable tracks may not have a file yet
         if (trackSetting.isRecordable) {
           tracksData.push({
+            pan: 0,
+            timeOffset: 0,
+            trimStart: 0,
+            trimEnd: 0,
             ...trackSetting,
             file: fileData?.file,
             isRecordable: true,
@@ -88,6 +109,10 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
         } else if (fileData) {
           // Regular tracks need a file
           tracksData.push({
+            pan: 0,
+            timeOffset: 0,
+            trimStart: 0,
+            trimEnd: 0,
             ...trackSetting,
             file: fileData.file,
           } as AudioTrack);
@@ -95,6 +120,31 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
       }
     }
 
+    // Drop decoded audio of the previous piece and rewind the engine
+    releaseTracksExcept(tracksData.map(t => t.id));
+    seekEngine(0);
+    setEnginePitch(settings.pitchSemitones ?? 0, settings.pitchCents ?? 0);
+    setEngineLimiter(settings.limiterEnabled ?? true);
+
+    const beatGrid = settings.beatGrid ?? DEFAULT_BEAT_GRID;
+    const metronome = settings.metronome ?? DEFAULT_METRONOME;
+    configureMetronome(beatGrid, metronome);
+
+    // No grid saved yet: offer a cached detection (never re-analysed here)
+    let tempoSuggestion: TempoAnalysis | null = null;
+    if (!settings.beatGrid) {
+      const analyses = await Promise.all(tracksData.map(t => getTempoAnalysis(t.id).catch(() => null)));
+      tempoSuggestion = analyses.reduce<TempoAnalysis | null>(
+        (best, a) => (a && (!best || a.confidence > best.confidence) ? a : best),
+        null
+      );
+    }
+
+    const routines = await getRoutinesForPiece(id).catch((err) => {
+      console.warn('⚠️ Failed to load routines:', err);
+      return [];
+    });
+
     // Update state
     set({
       tracks: tracksData,
@@ -107,8 +157,22 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
         currentTime: 0,
         duration: 0,
         playbackRate: settings.playbackRate,
+        pitchSemitones: settings.pitchSemitones ?? 0,
+        pitchCents: settings.pitchCents ?? 0,
       },
       masterVolume: settings.masterVolume,
+      limiterEnabled: settings.limiterEnabled ?? true,
+      beatGrid,
+      metronome,
+      tempoSuggestion,
+      routines,
+      routineProgress: null,
+      speedTrainerProgress: null,
+      loopRepeatProgress: null,
+      loopNotice: null,
+      quickLoop: null,
+      undoStack: [],
+      redoStack: [],
       currentPieceId: id,
       currentPieceName: piece.name,
     });
@@ -119,6 +183,7 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
 
   deletePiece: async (id: string): Promise<void> => {
     const { currentPieceId } = get();
+    if (currentPieceId === id) get().stopRoutine();
 
     const piece = await getPiece(id);
     if (!piece) {
@@ -127,13 +192,20 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
 
     // Delete audio files associated with this piece
     await Promise.all(piece.trackIds.map(trackId => deleteAudioFile(trackId)));
+    await Promise.all(piece.trackIds.map(trackId => deleteTempoAnalysis(trackId)));
 
     // Delete piece and settings
     await deletePieceDB(id);
     await deletePieceSettings(id);
+    await deleteRoutinesForPiece(id);
 
     // If deleting current piece, clear state
     if (currentPieceId === id) {
+      releaseTracksExcept([]);
+      seekEngine(0);
+      setEnginePitch(0, 0);
+      setEngineLimiter(true);
+      configureMetronome(DEFAULT_BEAT_GRID, DEFAULT_METRONOME);
       set({
         tracks: [],
         loopState: {
@@ -147,8 +219,22 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
           currentTime: 0,
           duration: 0,
           playbackRate: 1.0,
+          pitchSemitones: 0,
+          pitchCents: 0,
         },
         masterVolume: 1.0,
+        limiterEnabled: true,
+        beatGrid: DEFAULT_BEAT_GRID,
+        metronome: DEFAULT_METRONOME,
+        tempoSuggestion: null,
+        routines: [],
+        routineProgress: null,
+        speedTrainerProgress: null,
+        loopRepeatProgress: null,
+        loopNotice: null,
+        quickLoop: null,
+        undoStack: [],
+        redoStack: [],
         currentPieceId: null,
         currentPieceName: '',
       });
@@ -164,6 +250,7 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
       throw new Error(`Piece ${id} not found`);
     }
 
+    const previousName = piece.name;
     piece.name = name;
     piece.updatedAt = Date.now();
     await savePiece(piece);
@@ -172,6 +259,9 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
     const state = get();
     if (state.currentPieceId === id) {
       set({ currentPieceName: name });
+      if (previousName !== name) {
+        get().recordHistory({ type: 'renamePiece', pieceId: id, before: previousName, after: name });
+      }
     }
 
     logger.debug(`✏️ Renamed piece ${id} to: ${name}`);
@@ -240,16 +330,24 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   deleteAllPieces: async (): Promise<void> => {
-    const { pause } = get();
+    const { pause, stopRoutine } = get();
 
+    stopRoutine();
     pause();
 
     // Clear all stores
     await clearAllAudioFiles();
     await clearAllPieces();
     await clearAllPieceSettings();
+    await clearAllTempoAnalyses();
+    await clearAllRoutines();
 
     // Reset state
+    releaseTracksExcept([]);
+    seekEngine(0);
+    setEnginePitch(0, 0);
+    setEngineLimiter(true);
+    configureMetronome(DEFAULT_BEAT_GRID, DEFAULT_METRONOME);
     set({
       tracks: [],
       loopState: {
@@ -263,8 +361,22 @@ export const createPieceActions = (set: (partial: Partial<AudioStore> | ((state:
         currentTime: 0,
         duration: 0,
         playbackRate: 1.0,
+        pitchSemitones: 0,
+        pitchCents: 0,
       },
       masterVolume: 1.0,
+      limiterEnabled: true,
+      beatGrid: DEFAULT_BEAT_GRID,
+      metronome: DEFAULT_METRONOME,
+      tempoSuggestion: null,
+      routines: [],
+      routineProgress: null,
+      speedTrainerProgress: null,
+      loopRepeatProgress: null,
+      loopNotice: null,
+      quickLoop: null,
+      undoStack: [],
+      redoStack: [],
       currentPieceId: null,
       currentPieceName: '',
     });
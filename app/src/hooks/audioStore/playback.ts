@@ -11,6 +11,19 @@ import {
   setIsSynchronizing,
 } from './shared';
 import { saveTrackSettingsToPiece } from './storage';
+import { updatePieceSettings } from '../../utils/indexedDB';
+import {
+  getEngineTime,
+  getTrackEndTime,
+  seekEngine,
+  setEngineRate,
+  setEngineLimiter,
+  setEnginePitch,
+  startEngine,
+  stopEngine,
+  toTrackTime,
+} from './engine';
+import { startCursorLagMonitor, stopCursorLagMonitor } from './cursorLagMonitor';
 
 export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
   play: () => {
@@ -26,24 +39,15 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
     // Clear finished set at the start of each play
     finishedInstances.clear();
 
-    // Call play on all WaveSurfer instances SIMULTANEOUSLY
-    const instances = Array.from(wavesurferInstances.entries());
-    Promise.all(
-      instances.map(([id, ws]) => {
-        // Skip if track has already finished (currentTime >= duration)
-        const currentTime = ws.getCurrentTime();
-        const duration = ws.getDuration();
-
-        if (currentTime >= duration) {
-          logger.debug('Skipping finished instance:', id, `(${currentTime.toFixed(2)}s >= ${duration.toFixed(2)}s)`);
-          finishedInstances.add(id); // Mark as finished
-          return Promise.resolve();
-        }
+    // Start every track on the shared engine clock (same sample for all)
+    const finishedIds = startEngine();
+    finishedIds.forEach((id) => {
+      logger.debug('Skipping finished instance:', id, `(${getEngineTime().toFixed(2)}s >= ${getTrackEndTime(id).toFixed(2)}s)`);
+      finishedInstances.add(id); // Mark as finished
+    });
 
-        logger.debug('Playing instance:', id);
-        return ws.play().catch(err => console.warn('WaveSurfer play error:', err));
-      })
-    );
+    // Measure waveform cursors against the engine clock while playing
+    startCursorLagMonitor(() => get().cursorLagThreshold / 1000);
 
     set((state: AudioStore) => ({
       playbackState: { ...state.playbackState, isPlaying: true },
@@ -65,14 +69,15 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
       get().toggleRecordArm(armedTrack.id); // Will disarm it
     }
 
-    // Pause all WaveSurfer instances simultaneously
-    const instances = Array.from(wavesurferInstances.values());
-    instances.forEach((ws) => {
-      ws.pause();
+    // Stop the engine and leave every cursor on the exact stop position
+    const time = stopEngine();
+    stopCursorLagMonitor();
+    wavesurferInstances.forEach((ws, id) => {
+      ws.setTime(toTrackTime(id, time, ws.getDuration()));
     });
 
     set((state: AudioStore) => ({
-      playbackState: { ...state.playbackState, isPlaying: false },
+      playbackState: { ...state.playbackState, isPlaying: false, currentTime: time },
     }));
   },
 
@@ -108,6 +113,8 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
           activeLoopId: null,
           loops: state.loopState.loops.map(l => ({ ...l, enabled: false }))
         };
+        updates.speedTrainerProgress = null;
+        updates.loopRepeatProgress = null;
 
         // Save to piece
         if (state.currentPieceId) {
@@ -129,26 +136,20 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
     // Set global flag to prevent feedback loops
     setIsSynchronizing(true);
 
-    // Seek all WaveSurfer instances synchronously (no await)
-    // Use Array.from to avoid iterator issues
-    const instances = Array.from(wavesurferInstances.entries());
-    const isCurrentlyPlaying = state.playbackState.isPlaying;
+    // Move the engine transport (running voices restart together)
+    seekEngine(time);
 
-    // Seek all at once (WaveSurfer's setTime is sync for the call, async for rendering)
-    instances.forEach(([id, ws]) => {
-      ws.setTime(time);
+    // Move every cursor (WaveSurfer's setTime is sync for the call, async for rendering)
+    wavesurferInstances.forEach((ws, id) => {
+      ws.setTime(toTrackTime(id, time, ws.getDuration()));
+    });
 
-      // If seeking back, check if this track can now play (was finished but new time < duration)
-      const duration = ws.getDuration();
-      if (finishedInstances.has(id) && time < duration) {
-        logger.debug('🔄 Re-enabling finished track:', id, `(${time.toFixed(2)}s < ${duration.toFixed(2)}s)`);
+    // If seeking back, tracks that had finished can play again
+    finishedInstances.forEach((id) => {
+      const endTime = getTrackEndTime(id);
+      if (time < endTime) {
+        logger.debug('🔄 Re-enabling finished track:', id, `(${time.toFixed(2)}s < ${endTime.toFixed(2)}s)`);
         finishedInstances.delete(id);
-
-        // If currently playing, restart playback on this track
-        if (isCurrentlyPlaying) {
-          logger.debug('▶️ Auto-playing re-enabled track:', id);
-          ws.play().catch(err => console.warn('Failed to play re-enabled track:', err));
-        }
       }
     });
 
@@ -159,10 +160,8 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
   },
 
   setPlaybackRate: (rate: number) => {
-    // Set playback rate on all WaveSurfer instances
-    wavesurferInstances.forEach((ws) => {
-      ws.setPlaybackRate(rate, true); // true = preserve pitch
-    });
+    // Set playback rate on the engine (pitch is preserved)
+    setEngineRate(rate);
 
     set((state: AudioStore) => ({
       playbackState: { ...state.playbackState, playbackRate: rate },
@@ -181,6 +180,25 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
     }
   },
 
+  setPitch: (semitones: number, cents: number) => {
+    const pitchSemitones = Math.max(-12, Math.min(12, Math.round(semitones)));
+    const pitchCents = Math.max(-50, Math.min(50, Math.round(cents)));
+
+    // Transpose on the engine (tempo is untouched)
+    setEnginePitch(pitchSemitones, pitchCents);
+
+    set((state: AudioStore) => ({
+      playbackState: { ...state.playbackState, pitchSemitones, pitchCents },
+    }));
+
+    // Save to piece
+    const { currentPieceId } = get();
+    if (currentPieceId) {
+      updatePieceSettings(currentPieceId, { pitchSemitones, pitchCents })
+        .catch(err => console.error('Failed to save pitch:', err));
+    }
+  },
+
   setMasterVolume: (volume: number) => {
     set({ masterVolume: volume });
 
@@ -196,4 +214,16 @@ export const createPlaybackActions = (set: (partial: Partial<AudioStore> | ((sta
       ).catch(err => console.error('Failed to save master volume:', err));
     }
   },
+
+  setLimiterEnabled: (enabled: boolean) => {
+    set({ limiterEnabled: enabled });
+    setEngineLimiter(enabled);
+
+    // Save to piece
+    const { currentPieceId } = get();
+    if (currentPieceId) {
+      updatePieceSettings(currentPieceId, { limiterEnabled: enabled })
+        .catch(err => console.error('Failed to save limiter state:', err));
+    }
+  },
 });
@@ -11,8 +11,9 @@ import {
   getPiece,
   savePiece,
 } from '../../utils/indexedDB';
-import { COLORS, wavesurferInstances, generatePieceName } from './shared';
+import { COLORS, generatePieceName } from './shared';
 import { saveTrackSettingsToPiece } from './storage';
+import { getEngineTime, releaseTrack } from './engine';
 
 export const createRecordingActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
   addRecordableTrack: async () => {
@@ -42,6 +43,10 @@ export const createRecordingActions = (set: (partial: Partial<AudioStore> | ((st
       id,
       name,
       volume: 0.8, // Default volume for recordings
+      pan: 0,
+      timeOffset: 0,
+      trimStart: 0,
+      trimEnd: 0,
       isMuted: false,
       isSolo: false,
       color,
@@ -112,24 +117,14 @@ export const createRecordingActions = (set: (partial: Partial<AudioStore> | ((st
   },
 
   startRecording: async (trackId: string) => {
-    const { tracks, playbackState, audioContext } = get();
+    const { tracks, audioContext } = get();
 
     const track = tracks.find((t) => t.id === trackId);
     if (!track || !track.isArmed) return;
 
-    // Get PRECISE time from WaveSurfer instance (sample-accurate)
-    let recordingStartOffset = 0;
-
-    // Try to get precise time from first WaveSurfer instance
-    const firstWavesurfer = Array.from(wavesurferInstances.values())[0];
-    if (firstWavesurfer) {
-      recordingStartOffset = firstWavesurfer.getCurrentTime();
-      logger.log(`⏱️ Recording armed at PRECISE time from WaveSurfer: ${recordingStartOffset.toFixed(6)}s`);
-    } else {
-      // Fallback to playbackState (less precise)
-      recordingStartOffset = playbackState.currentTime;
-      logger.log(`⏱️ Recording armed at playbackState time: ${recordingStartOffset.toFixed(6)}s (less precise)`);
-    }
+    // Get PRECISE time from the playback engine clock (sample-accurate, even before it starts)
+    const recordingStartOffset = getEngineTime();
+    logger.log(`⏱️ Recording armed at PRECISE time from engine: ${recordingStartOffset.toFixed(6)}s`);
 
     if (audioContext) {
       logger.log(`⏱️ AudioContext.currentTime: ${audioContext.currentTime.toFixed(6)}s`);
@@ -230,6 +225,9 @@ export const createRecordingActions = (set: (partial: Partial<AudioStore> | ((st
     if (!track || !track.isRecordable) return;
 
     try {
+      // Stop and drop the decoded audio
+      releaseTrack(trackId);
+
       // Delete audio file from IndexedDB
       await deleteAudioFile(trackId);
 
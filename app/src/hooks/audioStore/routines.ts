@@ -0,0 +1,125 @@
+/**
+ * Practice routine actions for audioStore
+ * Handles saving/deleting routines and running their steps hands-free
+ */
+
+import type { AudioStore, Routine, RoutineStep } from '../../types/audio';
+import { logger } from '../../utils/logger';
+import { deleteRoutine as deleteRoutineDB, saveRoutine as saveRoutineDB } from '../../utils/indexedDB';
+import { getLoopEntryTime } from './shared';
+import { saveTrackSettingsToPiece } from './storage';
+import { syncMixer } from './engine';
+
+type RoutineMix = NonNullable<RoutineStep['mix']>;
+
+export const createRoutineActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => {
+  // User's mute/solo before the routine, put back when it stops or completes
+  let mixBeforeRoutine: RoutineMix | null = null;
+
+  // Step mixes only change the live mix, the piece keeps the user's own
+  const applyMix = (mix: RoutineMix) => {
+    const tracks = get().tracks.map(t => (mix[t.id] ? { ...t, ...mix[t.id] } : t));
+    set({ tracks });
+    syncMixer(tracks, get().masterVolume);
+  };
+
+  const restoreMix = () => {
+    if (!mixBeforeRoutine) return;
+    applyMix(mixBeforeRoutine);
+    mixBeforeRoutine = null;
+
+    // Later edits during the routine saved the step mix: save the user's back
+    const { currentPieceId, tracks, loopState, playbackState, masterVolume } = get();
+    if (currentPieceId) {
+      saveTrackSettingsToPiece(currentPieceId, tracks, loopState, playbackState.playbackRate, masterVolume)
+        .catch(err => console.error('Failed to save restored mix:', err));
+    }
+  };
+
+  // Apply one step: its mix, its speed, then play its loop (or the whole piece) from the entry point
+  const runStep = (routine: Routine, stepIndex: number) => {
+    const step = routine.steps[stepIndex];
+    const { loopState, beatGrid } = get();
+    const loop = step.loopId ? loopState.loops.find(l => l.id === step.loopId) : null;
+    const entryTime = loop ? getLoopEntryTime(loop, loopState.markers, beatGrid) : 0;
+
+    // Loop deleted since the routine was written: skip the step
+    if (step.loopId && (!loop || entryTime === null)) {
+      console.warn(`⚠️ Routine step ${stepIndex + 1}: loop ${step.loopId} not found, skipped`);
+      set({ routineProgress: { routineId: routine.id, stepIndex } });
+      get().advanceRoutine();
+      return;
+    }
+
+    logger.debug(`📋 Routine "${routine.name}" step ${stepIndex + 1}/${routine.steps.length}: ${loop ? `loop ${loop.id} ×${step.repeatCount}` : 'full take'} at ${step.playbackRate.toFixed(2)}x`);
+
+    if (step.mix) {
+      applyMix(step.mix);
+    }
+
+    set({ routineProgress: { routineId: routine.id, stepIndex } });
+    get().setActiveLoop(loop ? loop.id : null);
+    get().setPlaybackRate(step.playbackRate);
+    get().seek(entryTime ?? 0);
+    if (!get().playbackState.isPlaying) get().play();
+  };
+
+  return {
+    saveRoutine: async (routine: Routine): Promise<void> => {
+      const saved = { ...routine, updatedAt: Date.now() };
+      set((state: AudioStore) => ({
+        routines: state.routines.some(r => r.id === saved.id)
+          ? state.routines.map(r => (r.id === saved.id ? saved : r))
+          : [...state.routines, saved],
+      }));
+      await saveRoutineDB(saved);
+      logger.debug(`📋 Saved routine: ${saved.name} (${saved.steps.length} steps)`);
+    },
+
+    deleteRoutine: async (id: string): Promise<void> => {
+      if (get().routineProgress?.routineId === id) {
+        get().stopRoutine();
+      }
+      set((state: AudioStore) => ({ routines: state.routines.filter(r => r.id !== id) }));
+      await deleteRoutineDB(id);
+    },
+
+    startRoutine: (id: string) => {
+      const routine = get().routines.find(r => r.id === id);
+      if (!routine || routine.steps.length === 0) return;
+      // Restarting while a routine runs keeps the mix from before the first one
+      if (!get().routineProgress) {
+        mixBeforeRoutine = Object.fromEntries(
+          get().tracks.map(t => [t.id, { isMuted: t.isMuted, isSolo: t.isSolo }])
+        );
+      }
+      runStep(routine, 0);
+    },
+
+    stopRoutine: () => {
+      if (!get().routineProgress) return;
+      logger.debug('📋 Routine stopped');
+      set({ routineProgress: null });
+      restoreMix();
+    },
+
+    advanceRoutine: () => {
+      const { routineProgress, routines } = get();
+      const routine = routines.find(r => r.id === routineProgress?.routineId);
+      if (!routineProgress || !routine) return;
+
+      const nextIndex = routineProgress.stepIndex + 1;
+      if (nextIndex < routine.steps.length) {
+        runStep(routine, nextIndex);
+        return;
+      }
+
+      // Last step done
+      logger.debug(`📋 Routine "${routine.name}" complete`);
+      set({ routineProgress: null });
+      get().pause();
+      get().setActiveLoop(null);
+      restoreMix();
+    },
+  };
+};
@@ -1,15 +1,25 @@
 /**
  * Settings and UI preference actions for audioStore
- * Handles waveform style, zoom, timeline, minimap preferences
+ * Handles waveform style, zoom, timeline, minimap, cursor lag, gain smoothing, marker snap, keyboard shortcut and pedal preferences
  */
 
-import type { AudioStore } from '../../types/audio';
+import type { AudioStore, PedalAction, PedalGesture, SnapMode } from '../../types/audio';
+import { SHORTCUT_ACTIONS, findShortcutConflict, resolveShortcuts } from '../../utils/shortcuts';
+import { isDefaultPedalAction, pedalSlot } from '../../utils/pedal';
 import {
   saveWaveformStyle,
   saveWaveformNormalize,
   saveWaveformTimeline,
   saveWaveformMinimap,
+  saveCursorLagThreshold,
+  saveShowCursorLagOverlay,
+  saveGainRampTime,
+  saveSnapMode,
+  saveShortcutOverrides,
+  savePedalMode,
+  savePedalOverrides,
 } from './shared';
+import { setEngineGainRamp } from './engine';
 
 export const createSettingsActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void) => ({
   setWaveformStyle: (style: 'modern' | 'classic') => {
@@ -47,4 +57,74 @@ export const createSettingsActions = (set: (partial: Partial<AudioStore> | ((sta
     set({ waveformMinimap: minimap });
     saveWaveformMinimap(minimap);
   },
+
+  setCursorLagThreshold: (threshold: number) => {
+    set({ cursorLagThreshold: threshold });
+    saveCursorLagThreshold(threshold);
+  },
+
+  setShowCursorLagOverlay: (show: boolean) => {
+    set({ showCursorLagOverlay: show });
+    saveShowCursorLagOverlay(show);
+  },
+
+  setGainRampTime: (ms: number) => {
+    set({ gainRampTime: ms });
+    setEngineGainRamp(ms / 1000);
+    saveGainRampTime(ms);
+  },
+
+  setSnapMode: (mode: SnapMode) => {
+    set({ snapMode: mode });
+    saveSnapMode(mode);
+  },
+
+  // Binding a key already used elsewhere takes it from the other action
+  setShortcut: (actionId: string, binding: string | null) => {
+    set((state: AudioStore) => {
+      const overrides = { ...state.shortcutOverrides };
+      const conflict = binding && findShortcutConflict(resolveShortcuts(overrides), actionId, binding);
+      if (conflict) overrides[conflict.id] = null;
+
+      // Only changes from the defaults are stored
+      const action = SHORTCUT_ACTIONS.find(a => a.id === actionId);
+      if (action?.defaultBinding === binding) {
+        delete overrides[actionId];
+      } else {
+        overrides[actionId] = binding;
+      }
+
+      saveShortcutOverrides(overrides);
+      return { shortcutOverrides: overrides };
+    });
+  },
+
+  resetShortcuts: () => {
+    set({ shortcutOverrides: {} });
+    saveShortcutOverrides({});
+  },
+
+  setPedalMode: (enabled: boolean) => {
+    set({ pedalMode: enabled });
+    savePedalMode(enabled);
+  },
+
+  setPedalAction: (key: string, gesture: PedalGesture, action: PedalAction | null) => {
+    set((state: AudioStore) => {
+      const overrides = { ...state.pedalOverrides };
+      const slot = pedalSlot(key, gesture);
+      if (isDefaultPedalAction(key, gesture, action)) {
+        delete overrides[slot];
+      } else {
+        overrides[slot] = action;
+      }
+      savePedalOverrides(overrides);
+      return { pedalOverrides: overrides };
+    });
+  },
+
+  resetPedalMap: () => {
+    set({ pedalOverrides: {} });
+    savePedalOverrides({});
+  },
 });
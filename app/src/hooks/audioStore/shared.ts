@@ -3,6 +3,7 @@
  */
 
 import type WaveSurfer from 'wavesurfer.js';
+import type { BeatGrid, Loop, LoopPreRoll, Marker, MetronomeState, PedalOverrides, ShortcutOverrides, SnapMode, SpeedTrainer, TrackEQ } from '../../types/audio';
 
 // Track colors palette
 export const COLORS = [
@@ -10,6 +11,93 @@ export const COLORS = [
   '#85C1E2', '#FF6B6B', '#98D8C8', '#e680a5',
 ];
 
+// Defaults for pieces without a beat grid / metronome settings
+export const DEFAULT_BEAT_GRID: BeatGrid = {
+  bpm: 120,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  downbeatOffset: 0,
+};
+
+export const DEFAULT_METRONOME: MetronomeState = {
+  enabled: false,
+  volume: 0.7,
+  isMuted: false,
+};
+
+export const DEFAULT_SPEED_TRAINER: SpeedTrainer = {
+  enabled: false,
+  startRate: 0.6,
+  targetRate: 1.0,
+  increment: 0.05,
+  cleanReps: 1,
+};
+
+export const DEFAULT_LOOP_PRE_ROLL: LoopPreRoll = {
+  enabled: false,
+  amount: 4,
+  unit: 'beats',
+  everyPass: false,
+  countIn: true,
+};
+
+/**
+ * Length of one beat of the grid (seconds)
+ * BPM counts quarter notes, a beat lasts one note of the time signature's unit
+ */
+export const getBeatLength = (beatGrid: BeatGrid) => (60 / beatGrid.bpm) * (4 / beatGrid.beatUnit);
+
+/**
+ * Length of a loop's pre-roll on the timeline (seconds, 0 when off)
+ */
+export const getPreRollLength = (preRoll: LoopPreRoll | undefined, beatGrid: BeatGrid) => {
+  if (!preRoll?.enabled || !(preRoll.amount > 0)) return 0;
+  return preRoll.unit === 'beats' ? preRoll.amount * getBeatLength(beatGrid) : preRoll.amount;
+};
+
+/**
+ * Where playback enters a loop: its start marker, minus the pre-roll
+ */
+export const getLoopEntryTime = (loop: Loop, markers: Marker[], beatGrid: BeatGrid) => {
+  const start = markers.find(m => m.id === loop.startMarkerId)?.time;
+  if (start === undefined) return null;
+  return Math.max(0, start - getPreRollLength(loop.preRoll, beatGrid));
+};
+
+/**
+ * Nearest beat (or bar line) of the grid to a timeline position
+ */
+export const snapToGrid = (time: number, beatGrid: BeatGrid, unit: 'beat' | 'bar') => {
+  if (!(beatGrid.bpm > 0)) return time;
+  const step = getBeatLength(beatGrid) * (unit === 'bar' ? beatGrid.beatsPerBar : 1);
+  const snapped = beatGrid.downbeatOffset + Math.round((time - beatGrid.downbeatOffset) / step) * step;
+  return Math.max(0, snapped);
+};
+
+// Suggested labels for section markers
+export const SECTION_NAMES = ['Intro', 'Verse', 'Pre-chorus', 'Chorus', 'Bridge', 'Solo', 'Outro'];
+
+/**
+ * Name shown for a marker: its label, or its number on the timeline
+ */
+export const getMarkerName = (markers: Marker[], markerId: string) => {
+  const index = markers.findIndex(m => m.id === markerId);
+  if (index === -1) return '?';
+  return markers[index].label || `${index + 1}`;
+};
+
+// Flat EQ, filters off
+export const DEFAULT_TRACK_EQ: TrackEQ = {
+  enabled: false,
+  lowGain: 0,
+  midGain: 0,
+  highGain: 0,
+  highPassEnabled: false,
+  highPassFrequency: 80,
+  lowPassEnabled: false,
+  lowPassFrequency: 8000,
+};
+
 // WaveSurfer instances registry (outside Zustand to avoid re-renders)
 export const wavesurferInstances = new Map<string, WaveSurfer>();
 
@@ -114,3 +202,71 @@ export const loadWaveformMinimap = () => {
 export const saveWaveformMinimap = (minimap: boolean) => {
   localStorage.setItem('waveform-minimap', minimap.toString());
 };
+
+export const loadCursorLagThreshold = () => {
+  const stored = localStorage.getItem('cursor-lag-threshold');
+  return stored ? parseFloat(stored) : 50;
+};
+
+export const saveCursorLagThreshold = (threshold: number) => {
+  localStorage.setItem('cursor-lag-threshold', threshold.toString());
+};
+
+export const loadGainRampTime = () => {
+  const stored = localStorage.getItem('gain-ramp-time');
+  return stored ? parseFloat(stored) : 15;
+};
+
+export const saveGainRampTime = (ms: number) => {
+  localStorage.setItem('gain-ramp-time', ms.toString());
+};
+
+export const loadSnapMode = (): SnapMode => {
+  const stored = localStorage.getItem('snap-mode');
+  return stored === 'beat' || stored === 'bar' || stored === 'zeroCrossing' ? stored : 'off';
+};
+
+export const saveSnapMode = (mode: SnapMode) => {
+  localStorage.setItem('snap-mode', mode);
+};
+
+export const loadShortcutOverrides = (): ShortcutOverrides => {
+  try {
+    const stored = localStorage.getItem('keyboard-shortcuts');
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveShortcutOverrides = (overrides: ShortcutOverrides) => {
+  localStorage.setItem('keyboard-shortcuts', JSON.stringify(overrides));
+};
+
+export const loadPedalMode = () => localStorage.getItem('pedal-mode') === 'true';
+
+export const savePedalMode = (enabled: boolean) => {
+  localStorage.setItem('pedal-mode', enabled.toString());
+};
+
+export const loadPedalOverrides = (): PedalOverrides => {
+  try {
+    const stored = localStorage.getItem('pedal-map');
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const savePedalOverrides = (overrides: PedalOverrides) => {
+  localStorage.setItem('pedal-map', JSON.stringify(overrides));
+};
+
+export const loadShowCursorLagOverlay = () => {
+  const stored = localStorage.getItem('cursor-lag-overlay');
+  return stored ? stored === 'true' : false;
+};
+
+export const saveShowCursorLagOverlay = (show: boolean) => {
+  localStorage.setItem('cursor-lag-overlay', show.toString());
+};
@@ -5,7 +5,7 @@
 
 import type { AudioTrack, PieceSettings } from '../../types/audio';
 import {
-  savePieceSettings,
+  updatePieceSettings,
   getAllAudioFiles,
   deleteAudioFile,
   getAllPieces,
@@ -15,6 +15,7 @@ import { logger } from '../../utils/logger';
 
 /**
  * Save track settings to piece settings in IndexedDB
+ * Other per-piece options (pitch...) already stored are kept
  */
 export const saveTrackSettingsToPiece = async (
   pieceId: string,
@@ -24,11 +25,18 @@ export const saveTrackSettingsToPiece = async (
   playbackRate: number,
   masterVolume: number
 ) => {
-  const settings: PieceSettings = {
+  const settings: Partial<PieceSettings> = {
     trackSettings: tracks.map(t => ({
       id: t.id,
       name: t.name,
       volume: t.volume,
+      pan: t.pan,
+      timeOffset: t.timeOffset,
+      trimStart: t.trimStart,
+      trimEnd: t.trimEnd,
+      fadeIn: t.fadeIn,
+      fadeOut: t.fadeOut,
+      eq: t.eq,
       isMuted: t.isMuted,
       isSolo: t.isSolo,
       color: t.color,
@@ -43,7 +51,7 @@ export const saveTrackSettingsToPiece = async (
     playbackRate,
     masterVolume,
   };
-  await savePieceSettings(pieceId, settings);
+  await updatePieceSettings(pieceId, settings);
 };
 
 /**
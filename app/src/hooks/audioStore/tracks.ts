@@ -3,19 +3,35 @@
  * Handles add, remove, update, reorder, mute, solo operations
  */
 
-import type { AudioStore, AudioTrack } from '../../types/audio';
+import type { AudioStore, AudioTrack, TrackEQ } from '../../types/audio';
 import {
   saveAudioFile,
   deleteAudioFile,
+  deleteTempoAnalysis,
   getPiece,
   savePiece,
 } from '../../utils/indexedDB';
-import { COLORS, wavesurferInstances, generatePieceName } from './shared';
+import { COLORS, DEFAULT_TRACK_EQ, generatePieceName } from './shared';
 import { saveTrackSettingsToPiece } from './storage';
+import { snapshotMix } from './history';
+import {
+  getTrackBufferDuration,
+  getTrackDuration,
+  getTrackEndTime,
+  initEngine,
+  releaseTrack,
+  releaseTracksExcept,
+  setEngineGainRamp,
+  syncMixer,
+} from './engine';
+
+const MIN_TRIMMED_LENGTH = 1; // Seconds of audio a trim must leave
 
 export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state: AudioStore) => Partial<AudioStore>)) => void, get: () => AudioStore) => ({
   initAudioContext: () => {
     const ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    initEngine(ctx);
+    setEngineGainRamp(get().gainRampTime / 1000);
     set({ audioContext: ctx });
   },
 
@@ -45,6 +61,10 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
       name: file.name,
       file,
       volume: 0.8,
+      pan: 0,
+      timeOffset: 0,
+      trimStart: 0,
+      trimEnd: 0,
       isMuted: false,
       isSolo: false,
       color,
@@ -82,6 +102,9 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
           t.id === id ? { ...t, isLoading: false } : t
         ),
       }));
+
+      // Detect tempo/downbeat in background and offer them for the piece
+      get().analyzeTrackTempo(id, file);
     } catch (error) {
       console.error('Failed to save audio file:', error);
 
@@ -95,20 +118,30 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   removeTrack: async (id: string) => {
-    const { currentPieceId } = get();
+    const { currentPieceId, tracks } = get();
+
+    const index = tracks.findIndex((t) => t.id === id);
+    if (index !== -1) {
+      get().recordHistory({ type: 'removeTrack', track: tracks[index], index });
+    }
+
+    // Stop and drop the decoded audio
+    releaseTrack(id);
 
     // Delete from IndexedDB
     try {
       await deleteAudioFile(id);
+      await deleteTempoAnalysis(id);
     } catch (error) {
       console.error('Failed to delete audio file:', error);
     }
 
     const newTracks = get().tracks.filter((t) => t.id !== id);
 
-    set({
+    set((state: AudioStore) => ({
       tracks: newTracks,
-    });
+      tempoSuggestion: state.tempoSuggestion?.trackId === id ? null : state.tempoSuggestion,
+    }));
 
     // Update piece
     if (currentPieceId) {
@@ -131,15 +164,18 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   removeAllTracks: async () => {
-    const { tracks, pause, seek, currentPieceId } = get();
+    const { tracks, pause, seek, currentPieceId, stopRoutine } = get();
 
-    // Pause and reset position
+    // Pause and reset position (a running routine puts the user's mix back first)
+    stopRoutine();
     pause();
     seek(0);
+    releaseTracksExcept([]);
 
     // Delete all files from IndexedDB
     try {
       await Promise.all(tracks.map((track) => deleteAudioFile(track.id)));
+      await Promise.all(tracks.map((track) => deleteTempoAnalysis(track.id)));
     } catch (error) {
       console.error('Failed to delete audio files:', error);
     }
@@ -147,6 +183,9 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
     // Clear tracks AND loop state
     set({
       tracks: [],
+      tempoSuggestion: null,
+      undoStack: [],
+      redoStack: [],
       loopState: {
         editMode: false,
         markers: [],
@@ -192,10 +231,12 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   reorderTracks: (fromIndex: number, toIndex: number) => {
+    const before = snapshotMix(get().tracks);
     const tracks = [...get().tracks];
     const [movedTrack] = tracks.splice(fromIndex, 1);
     tracks.splice(toIndex, 0, movedTrack);
     set({ tracks });
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(tracks) });
 
     // Save to piece
     const { currentPieceId, loopState, playbackState, masterVolume } = get();
@@ -211,24 +252,83 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
   },
 
   setVolume: (id: string, volume: number) => {
+    const before = snapshotMix(get().tracks);
     get().updateTrack(id, { volume });
+    // A slider drag is one undo step
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(get().tracks) }, `volume-${id}`);
+  },
+
+  setPan: (id: string, pan: number) => {
+    get().updateTrack(id, { pan: Math.max(-1, Math.min(1, pan)) });
+  },
+
+  setTrackEQ: (id: string, updates: Partial<TrackEQ>) => {
+    const track = get().tracks.find((t) => t.id === id);
+    if (!track) return;
+    get().updateTrack(id, { eq: { ...DEFAULT_TRACK_EQ, ...track.eq, ...updates } });
+  },
+
+  setTrackOffset: (id: string, timeOffset: number) => {
+    const rounded = Math.round(timeOffset * 1000) / 1000; // Millisecond resolution
+    get().updateTrack(id, { timeOffset: rounded });
+
+    const { tracks, masterVolume } = get();
+    syncMixer(tracks, masterVolume);
+
+    // Timeline length follows the stem that now ends last
+    const duration = Math.max(0, ...tracks.map(t => getTrackEndTime(t.id)));
+    if (duration > 0) {
+      set((state) => ({ playbackState: { ...state.playbackState, duration } }));
+    }
+  },
+
+  setTrackTrim: (id: string, trim: { start?: number; end?: number }) => {
+    const track = get().tracks.find((t) => t.id === id);
+    if (!track) return;
+
+    // Keep at least MIN_TRIMMED_LENGTH of audio between the in and out points
+    const bufferDuration = getTrackBufferDuration(id);
+    const clamp = (value: number, other: number) => {
+      const max = bufferDuration > 0 ? Math.max(0, bufferDuration - other - MIN_TRIMMED_LENGTH) : Infinity;
+      return Math.round(Math.max(0, Math.min(value, max)) * 1000) / 1000;
+    };
+    const trimStart = clamp(trim.start ?? track.trimStart, trim.end ?? track.trimEnd);
+    const trimEnd = clamp(trim.end ?? track.trimEnd, trimStart);
+    get().updateTrack(id, { trimStart, trimEnd });
+
+    const { tracks, masterVolume } = get();
+    syncMixer(tracks, masterVolume);
+
+    const duration = Math.max(0, ...tracks.map(t => getTrackEndTime(t.id)));
+    if (duration > 0) {
+      set((state) => ({ playbackState: { ...state.playbackState, duration } }));
+    }
+  },
+
+  setTrackFades: (id: string, fades: { fadeIn?: number; fadeOut?: number }) => {
+    // A fade can't be longer than the (trimmed) track
+    const duration = getTrackDuration(id) || Infinity;
+    const clamp = (value: number) => Math.round(Math.max(0, Math.min(value, duration)) * 1000) / 1000;
+    const updates: Partial<AudioTrack> = {};
+    if (fades.fadeIn !== undefined) updates.fadeIn = clamp(fades.fadeIn);
+    if (fades.fadeOut !== undefined) updates.fadeOut = clamp(fades.fadeOut);
+    get().updateTrack(id, updates);
+
+    const { tracks, masterVolume } = get();
+    syncMixer(tracks, masterVolume);
   },
 
   toggleMute: (id: string) => {
     const track = get().tracks.find((t) => t.id === id);
     if (!track) return;
 
+    const before = snapshotMix(get().tracks);
     const newMutedState = !track.isMuted;
     get().updateTrack(id, { isMuted: newMutedState });
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(get().tracks) });
 
-    // Update WaveSurfer instance directly
-    const ws = wavesurferInstances.get(id);
-    if (ws) {
-      const allTracks = get().tracks;
-      const hasSoloedTracks = allTracks.some(t => t.isSolo);
-      const shouldBeMuted = newMutedState || (hasSoloedTracks && !track.isSolo);
-      ws.setMuted(shouldBeMuted);
-    }
+    // Update engine gains directly
+    syncMixer(get().tracks, get().masterVolume);
   },
 
   toggleSolo: (id: string) => {
@@ -236,33 +336,25 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
     const track = tracks.find((t) => t.id === id);
     if (!track) return;
 
+    const before = snapshotMix(tracks);
     const newSoloState = !track.isSolo;
 
     // Update track state
     get().updateTrack(id, { isSolo: newSoloState });
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(get().tracks) });
 
-    // Calculate with the NEW state
-    const allTracks = tracks.map(t =>
-      t.id === id ? { ...t, isSolo: newSoloState } : t
-    );
-    const hasSoloedTracks = allTracks.some(t => t.isSolo);
-
-    // Apply mute to ALL instances
-    allTracks.forEach(t => {
-      const ws = wavesurferInstances.get(t.id);
-      if (ws) {
-        const shouldBeMuted = t.isMuted || (hasSoloedTracks && !t.isSolo);
-        ws.setMuted(shouldBeMuted);
-      }
-    });
+    // Apply mute/solo to ALL engine voices with the NEW state
+    syncMixer(get().tracks, get().masterVolume);
   },
 
   exclusiveSolo: (id: string) => {
+    const before = snapshotMix(get().tracks);
     const newTracks = get().tracks.map((t) => ({
       ...t,
       isSolo: t.id === id,
     }));
     set({ tracks: newTracks });
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(newTracks) });
 
     // Save to piece
     const { currentPieceId, loopState, playbackState, masterVolume } = get();
@@ -276,22 +368,18 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
       ).catch(err => console.error('Failed to save track settings:', err));
     }
 
-    // Update all WaveSurfer instances - all except 'id' are muted
-    newTracks.forEach(t => {
-      const ws = wavesurferInstances.get(t.id);
-      if (ws) {
-        const shouldBeMuted = t.isMuted || t.id !== id;
-        ws.setMuted(shouldBeMuted);
-      }
-    });
+    // Update all engine voices - all except 'id' are muted
+    syncMixer(newTracks, masterVolume);
   },
 
   unmuteAll: () => {
+    const before = snapshotMix(get().tracks);
     const newTracks = get().tracks.map((t) => ({
       ...t,
       isMuted: false,
     }));
     set({ tracks: newTracks });
+    get().recordHistory({ type: 'mixer', before, after: snapshotMix(newTracks) });
 
     // Save to piece
     const { currentPieceId, loopState, playbackState, masterVolume } = get();
@@ -305,14 +393,7 @@ export const createTrackActions = (set: (partial: Partial<AudioStore> | ((state:
       ).catch(err => console.error('Failed to save track settings:', err));
     }
 
-    // Update all WaveSurfer instances
-    const hasSoloedTracks = newTracks.some(t => t.isSolo);
-    newTracks.forEach(t => {
-      const ws = wavesurferInstances.get(t.id);
-      if (ws) {
-        const shouldBeMuted = hasSoloedTracks && !t.isSolo;
-        ws.setMuted(shouldBeMuted);
-      }
-    });
+    // Update all engine voices
+    syncMixer(newTracks, masterVolume);
   },
 });
@@ -22,12 +22,22 @@ import {
   loadWaveformNormalize,
   loadWaveformTimeline,
   loadWaveformMinimap,
+  loadCursorLagThreshold,
+  loadShowCursorLagOverlay,
+  loadGainRampTime,
+  loadSnapMode,
+  loadShortcutOverrides,
+  loadPedalMode,
+  loadPedalOverrides,
   loadCurrentPieceId,
   loadTrackSettings,
   generatePieceName,
   wavesurferInstances,
   finishedInstances,
   COLORS,
+  DEFAULT_BEAT_GRID,
+  DEFAULT_METRONOME,
+  getLoopEntryTime,
   getIsSynchronizing as getIsSynchronizingFromShared,
 } from './audioStore/shared';
 import { createPlaybackActions } from './audioStore/playback';
@@ -36,6 +46,10 @@ import { createLoopActions } from './audioStore/loops';
 import { createRecordingActions } from './audioStore/recording';
 import { createPieceActions } from './audioStore/pieces';
 import { createSettingsActions } from './audioStore/settings';
+import { createMetronomeActions, refreshCountIn, setCountInSource } from './audioStore/metronome';
+import { createRoutineActions } from './audioStore/routines';
+import { createHistoryActions } from './audioStore/history';
+import { getTrackEndTime, setLoopHandlers, setTrackEndedHandler, type LoopRegion } from './audioStore/engine';
 
 // Re-export for backwards compatibility with existing code
 export { wavesurferInstances } from './audioStore/shared';
@@ -50,12 +64,15 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
     currentTime: 0,
     duration: 0,
     playbackRate: loadPlaybackRate(),
+    pitchSemitones: 0,
+    pitchCents: 0,
   },
   loopState: {
     ...loadLoopV2State(),
     editMode: false,
   },
   masterVolume: loadMasterVolume(),
+  limiterEnabled: true,
   audioContext: null,
   showLoopPanel: false,
   zoomLevel: 0,
@@ -63,6 +80,24 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
   waveformNormalize: loadWaveformNormalize(),
   waveformTimeline: loadWaveformTimeline(),
   waveformMinimap: loadWaveformMinimap(),
+  cursorLagThreshold: loadCursorLagThreshold(),
+  showCursorLagOverlay: loadShowCursorLagOverlay(),
+  gainRampTime: loadGainRampTime(),
+  snapMode: loadSnapMode(),
+  shortcutOverrides: loadShortcutOverrides(),
+  pedalMode: loadPedalMode(),
+  pedalOverrides: loadPedalOverrides(),
+  beatGrid: DEFAULT_BEAT_GRID,
+  metronome: DEFAULT_METRONOME,
+  tempoSuggestion: null,
+  speedTrainerProgress: null,
+  loopRepeatProgress: null,
+  routines: [],
+  routineProgress: null,
+  quickLoop: null,
+  loopNotice: null,
+  undoStack: [],
+  redoStack: [],
   currentPieceId: loadCurrentPieceId(),
   currentPieceName: '',
 
@@ -82,6 +117,9 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
   ...createRecordingActions(set, get),
   ...createPieceActions(set, get),
   ...createSettingsActions(set),
+  ...createMetronomeActions(set, get),
+  ...createRoutineActions(set, get),
+  ...createHistoryActions(set, get),
 }));
 
 // Function to restore tracks from IndexedDB on app init
@@ -123,6 +161,10 @@ export const restoreTracks = async () => {
             id: f.id,
             name: f.file.name,
             volume: 0.8,
+            pan: 0,
+            timeOffset: 0,
+            trimStart: 0,
+            trimEnd: 0,
             isMuted: false,
             isSolo: false,
             color: COLORS[idx % COLORS.length],
@@ -184,14 +226,90 @@ export const markTrackFinished = (trackId: string) => {
 
   if (allFinished) {
     logger.debug('🏁 All tracks finished playing');
-    const { pause, seek } = useAudioStore.getState();
+    const { pause, seek, routineProgress, advanceRoutine } = useAudioStore.getState();
     pause();
     seek(0); // Reset to start
     // Clear finished set for next playback
     finishedInstances.clear();
+    // Full take of a routine done: next step
+    if (routineProgress) advanceRoutine();
   }
 };
 
+// Engine voices report the end of their buffer here
+setTrackEndedHandler(markTrackFinished);
+
+const getActiveLoop = () => {
+  const { loopState } = useAudioStore.getState();
+  const loop = loopState.loops.find(l => l.id === loopState.activeLoopId);
+  return loop?.enabled ? loop : null;
+};
+
+// Active, enabled loop as a timeline range; `start` is where each new pass begins
+const getActiveLoopRegion = (): LoopRegion | null => {
+  const loop = getActiveLoop();
+  if (!loop) return null;
+
+  const { loopState, beatGrid, loopRepeatProgress, routines, routineProgress } = useAudioStore.getState();
+  const end = loopState.markers.find(m => m.id === loop.endMarkerId)?.time;
+  const entry = getLoopEntryTime(loop, loopState.markers, beatGrid);
+  const start = loop.preRoll?.everyPass ? entry : loopState.markers.find(m => m.id === loop.startMarkerId)?.time;
+  if (start === undefined || start === null || end === undefined) return null;
+
+  // Counted loops stop wrapping on their last pass (a running routine step sets its own count)
+  const step = routines.find(r => r.id === routineProgress?.routineId)?.steps[routineProgress?.stepIndex ?? -1];
+  const repeatCount = step?.loopId === loop.id ? step.repeatCount : loop.repeatCount;
+  const pass = loopRepeatProgress?.loopId === loop.id ? loopRepeatProgress.pass : 1;
+  const repeat = !(repeatCount && pass >= repeatCount);
+  return { start, end, repeat };
+};
+
+// Pre-roll of the active loop, when it has a count-in
+const getActiveCountIn = () => {
+  const loop = getActiveLoop();
+  if (!loop?.preRoll?.enabled || !loop.preRoll.countIn) return null;
+
+  const { loopState, beatGrid } = useAudioStore.getState();
+  const end = loopState.markers.find(m => m.id === loop.startMarkerId)?.time;
+  const start = getLoopEntryTime(loop, loopState.markers, beatGrid);
+  return start !== null && end !== undefined && end > start ? { start, end } : null;
+};
+
+// The engine wraps loops on the audio clock and reports each new pass here
+const handleEngineLoopWrap = () => {
+  const { loopState, handleLoopWrap } = useAudioStore.getState();
+  const region = getActiveLoopRegion();
+  if (!region || !loopState.activeLoopId) return;
+
+  // Tracks that ended before the loop end play again from the loop start
+  finishedInstances.forEach((id) => {
+    if (region.start < getTrackEndTime(id)) finishedInstances.delete(id);
+  });
+
+  useAudioStore.setState((state) => ({
+    playbackState: { ...state.playbackState, currentTime: region.start },
+  }));
+  handleLoopWrap(loopState.activeLoopId);
+};
+
+// Last pass of a counted loop finished: stop, continue or move to the next loop
+// (or to the next step when a routine is running)
+const handleEngineLoopEnd = () => {
+  const { loopState, handleLoopComplete, routineProgress, advanceRoutine } = useAudioStore.getState();
+  if (routineProgress) {
+    advanceRoutine();
+  } else if (loopState.activeLoopId) {
+    handleLoopComplete(loopState.activeLoopId);
+  }
+};
+
+setLoopHandlers(getActiveLoopRegion, handleEngineLoopWrap, handleEngineLoopEnd);
+setCountInSource(getActiveCountIn);
+// Loop and pre-roll edits can start or end a count-in without moving the transport
+useAudioStore.subscribe((state, previous) => {
+  if (state.loopState !== previous.loopState) refreshCountIn();
+});
+
 export const getWavesurfer = (trackId: string) => {
   return wavesurferInstances.get(trackId);
 };
@@ -0,0 +1,14 @@
+import React from 'react';
+import { getCursorLagStats, subscribeToCursorLagStats } from './audioStore/cursorLagMonitor';
+
+// Hook for components that display live cursor lag measurements
+export const useCursorLagStats = () => {
+  const [stats, setStats] = React.useState(getCursorLagStats);
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeToCursorLagStats(setStats);
+    return unsubscribe;
+  }, []);
+
+  return stats;
+};
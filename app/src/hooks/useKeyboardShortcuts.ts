@@ -0,0 +1,428 @@
+import { useEffect } from 'react';
+import { useAudioStore } from './useAudioStore';
+import { logger } from '../utils/logger';
+import { getEngineTime } from './audioStore/engine';
+import { getLoopEntryTime } from './audioStore/shared';
+import {
+  eventToBinding,
+  findShortcutAction,
+  resolveShortcuts,
+  type ShortcutAction,
+  type ShortcutCommand,
+} from '../utils/shortcuts';
+import { DOUBLE_PRESS_WINDOW, PEDAL_KEYS, getPedalAction } from '../utils/pedal';
+import type { Loop, PedalAction, PedalGesture } from '../types/audio';
+
+const SPEED_STEP = 0.05;
+const MIN_RATE = 0.5; // Same range as the speed drawer
+const MAX_RATE = 2;
+const MARKER_GAP = 0.25; // Seconds: a marker just reached isn't the next/previous one
+
+// Focusable controls a pedal key must not be taken from
+const INTERACTIVE_SELECTOR = 'button, a[href], select, summary, [role="button"], [role="menuitem"], [role="option"], [role="tab"], [role="slider"], [role="checkbox"], [role="switch"], [role="radio"]';
+
+// Actions that keep firing while their key is held
+const REPEATABLE: ShortcutCommand[] = ['speedUp', 'speedDown', 'zoomIn', 'zoomOut', 'undo', 'redo'];
+
+/**
+ * Global keyboard shortcuts, dispatched through the user's key map
+ * In pedal mode, page-turner keys run pedal actions (press, long press, double press)
+ */
+export const useKeyboardShortcuts = () => {
+  const shortcutOverrides = useAudioStore(state => state.shortcutOverrides);
+  const pedalMode = useAudioStore(state => state.pedalMode);
+  const pedalOverrides = useAudioStore(state => state.pedalOverrides);
+
+  useEffect(() => {
+    const bindings = resolveShortcuts(shortcutOverrides);
+    const seek = (time: number) => useAudioStore.getState().seek(time);
+
+    const seekIntervalRef = { current: null as number | null };
+    const holdTimeoutRef = { current: null as number | null };
+    const keyPressTimeRef = { current: null as number | null };
+    const isInContinuousModeRef = { current: false };
+    const currentDirectionRef = { current: 0 };
+    const continuousStartTimeRef = { current: null as number | null };
+    const heldKeyRef = { current: null as string | null }; // Touche de défilement maintenue
+    // Pédale enfoncée (handled : l'appui long a déjà agi)
+    const pedalPressRef = { current: null as { key: string; handled: boolean } | null };
+    // Premier appui en attente d'un éventuel double appui
+    const pendingTapRef = { current: null as { key: string; timeout: number } | null };
+
+    const HOLD_THRESHOLD = 300; // ms avant de commencer le défilement continu
+    const SEEK_INTERVAL = 50; // ms entre chaque seek en mode continu
+    const SINGLE_PRESS_SEEK = 5; // secondes pour un appui simple
+    const CONTINUOUS_SEEK_BASE = 0.5; // secondes par interval en mode continu (vitesse de base)
+    const MAX_ACCELERATION = 5; // multiplier max (5x la vitesse de base)
+    const ACCELERATION_DURATION = 3000; // ms pour atteindre la vitesse max
+
+    const getAcceleratedSeekAmount = () => {
+      if (continuousStartTimeRef.current === null) return CONTINUOUS_SEEK_BASE;
+
+      const elapsed = Date.now() - continuousStartTimeRef.current;
+      // Accélération progressive linéaire de 1x à 5x sur ACCELERATION_DURATION ms
+      const progress = Math.min(elapsed / ACCELERATION_DURATION, 1);
+      const multiplier = 1 + (progress * (MAX_ACCELERATION - 1));
+      return CONTINUOUS_SEEK_BASE * multiplier;
+    };
+
+    const startContinuousSeek = (direction: number) => {
+      if (seekIntervalRef.current !== null) return;
+
+      isInContinuousModeRef.current = true;
+      continuousStartTimeRef.current = Date.now();
+
+      seekIntervalRef.current = window.setInterval(() => {
+        const currentTime = useAudioStore.getState().playbackState.currentTime;
+        const duration = useAudioStore.getState().playbackState.duration;
+        const seekAmount = getAcceleratedSeekAmount();
+        const newTime = Math.max(0, Math.min(
+          currentTime + (direction * seekAmount),
+          duration
+        ));
+        seek(newTime);
+      }, SEEK_INTERVAL);
+    };
+
+    const stopContinuousSeek = () => {
+      if (seekIntervalRef.current !== null) {
+        clearInterval(seekIntervalRef.current);
+        seekIntervalRef.current = null;
+      }
+      if (holdTimeoutRef.current !== null) {
+        clearTimeout(holdTimeoutRef.current);
+        holdTimeoutRef.current = null;
+      }
+      continuousStartTimeRef.current = null;
+    };
+
+    const togglePlayback = () => {
+      const state = useAudioStore.getState();
+      if (state.playbackState.isPlaying) {
+        state.pause();
+      } else {
+        state.play();
+      }
+      // Remove focus from any button
+      if (document.activeElement instanceof HTMLElement) {
+        document.activeElement.blur();
+      }
+    };
+
+    // Same as clicking its chip: play from the loop's entry point
+    const startLoop = (loop: Loop) => {
+      const state = useAudioStore.getState();
+      const entryTime = getLoopEntryTime(loop, state.loopState.markers, state.beatGrid);
+      if (entryTime === null) return;
+      state.setActiveLoop(loop.id);
+      seek(entryTime);
+      state.play();
+    };
+
+    const seekBy = (seconds: number) => {
+      const { currentTime, duration } = useAudioStore.getState().playbackState;
+      seek(Math.max(0, Math.min(currentTime + seconds, duration)));
+    };
+
+    const runAction = (action: ShortcutAction, e: KeyboardEvent) => {
+      const state = useAudioStore.getState();
+
+      switch (action.command) {
+        case 'playPause':
+          togglePlayback();
+          break;
+
+        case 'seekBackward':
+        case 'seekForward':
+          // Première pression : appui court ou maintenu (défilement continu)
+          keyPressTimeRef.current = Date.now();
+          currentDirectionRef.current = action.command === 'seekBackward' ? -1 : 1;
+          isInContinuousModeRef.current = false;
+          heldKeyRef.current = e.code;
+
+          // Démarrer un timeout pour passer en mode continu
+          holdTimeoutRef.current = window.setTimeout(() => {
+            startContinuousSeek(currentDirectionRef.current);
+          }, HOLD_THRESHOLD);
+          break;
+
+        case 'jumpToStart':
+          seek(0);
+          break;
+
+        case 'addMarker':
+          state.addMarker(getEngineTime());
+          break;
+
+        case 'previousMarker':
+        case 'nextMarker': {
+          const time = getEngineTime();
+          const marker = action.command === 'nextMarker'
+            ? state.loopState.markers.find(m => m.time > time + MARKER_GAP)
+            : [...state.loopState.markers].reverse().find(m => m.time < time - MARKER_GAP);
+          if (marker) seek(marker.time);
+          break;
+        }
+
+        case 'quickLoop':
+          state.captureQuickLoopPoint();
+          break;
+
+        case 'toggleLoop': {
+          const loop = state.loopState.loops[(action.index ?? 0) - 1];
+          if (!loop) break;
+          if (loop.enabled) {
+            state.setActiveLoop(null);
+          } else {
+            startLoop(loop);
+          }
+          break;
+        }
+
+        case 'muteTrack':
+        case 'soloTrack': {
+          const track = state.tracks[(action.index ?? 0) - 1];
+          if (!track) break;
+          if (action.command === 'muteTrack') {
+            state.toggleMute(track.id);
+          } else {
+            state.toggleSolo(track.id);
+          }
+          break;
+        }
+
+        case 'speedUp':
+        case 'speedDown': {
+          const step = action.command === 'speedUp' ? SPEED_STEP : -SPEED_STEP;
+          const rate = Math.round((state.playbackState.playbackRate + step) * 100) / 100;
+          state.setPlaybackRate(Math.max(MIN_RATE, Math.min(MAX_RATE, rate)));
+          break;
+        }
+
+        case 'zoomIn':
+          state.zoomIn();
+          break;
+
+        case 'zoomOut':
+          state.zoomOut();
+          break;
+
+        case 'undo':
+          state.undo();
+          break;
+
+        case 'redo':
+          state.redo();
+          break;
+      }
+    };
+
+    const runPedalAction = (action: PedalAction) => {
+      const state = useAudioStore.getState();
+      const { loops, markers, activeLoopId } = state.loopState;
+      const activeLoop = loops.find(l => l.id === activeLoopId);
+      const time = getEngineTime();
+      // Loops in playing order
+      const startOf = (loop: Loop) => markers.find(m => m.id === loop.startMarkerId)?.time ?? 0;
+      const endOf = (loop: Loop) => markers.find(m => m.id === loop.endMarkerId)?.time ?? 0;
+      const sortedLoops = [...loops].sort((a, b) => startOf(a) - startOf(b));
+
+      logger.debug(`🦶 Pedal: ${action}`);
+
+      switch (action) {
+        case 'playPause':
+          togglePlayback();
+          break;
+
+        case 'restartLoop': {
+          // Back to the loop's entry point (or the start), keeping the loop and its progress
+          const entryTime = activeLoop ? getLoopEntryTime(activeLoop, markers, state.beatGrid) : 0;
+          useAudioStore.setState({ _preserveLoopOnNextSeek: true });
+          seek(entryTime ?? 0);
+          if (!state.playbackState.isPlaying) state.play();
+          break;
+        }
+
+        case 'toggleLoop': {
+          if (activeLoop) {
+            state.setActiveLoop(null);
+            break;
+          }
+          // Loop under the playhead, else the first one
+          const loop = sortedLoops.find(l => time >= startOf(l) && time <= endOf(l));
+          if (loop) {
+            state.setActiveLoop(loop.id);
+          } else if (sortedLoops[0]) {
+            startLoop(sortedLoops[0]);
+          }
+          break;
+        }
+
+        case 'nextLoop':
+        case 'previousLoop': {
+          // From the active loop, or from the playhead
+          const index = activeLoop ? sortedLoops.indexOf(activeLoop) : -1;
+          const loop = action === 'nextLoop'
+            ? (index !== -1 ? sortedLoops[index + 1] : sortedLoops.find(l => startOf(l) > time))
+            : (index !== -1 ? sortedLoops[index - 1] : [...sortedLoops].reverse().find(l => startOf(l) < time));
+          if (loop) startLoop(loop);
+          break;
+        }
+
+        case 'addMarker':
+          state.addMarker(time);
+          break;
+
+        case 'quickLoop':
+          state.captureQuickLoopPoint();
+          break;
+
+        case 'rewind':
+          seekBy(-SINGLE_PRESS_SEEK);
+          break;
+
+        case 'forward':
+          seekBy(SINGLE_PRESS_SEEK);
+          break;
+      }
+    };
+
+    const runPedalGesture = (key: string, gesture: PedalGesture) => {
+      const action = getPedalAction(pedalOverrides, key, gesture);
+      if (action) runPedalAction(action);
+    };
+
+    // Un premier appui sans double appui derrière : simple appui
+    const flushPendingTap = () => {
+      if (!pendingTapRef.current) return;
+      clearTimeout(pendingTapRef.current.timeout);
+      const { key } = pendingTapRef.current;
+      pendingTapRef.current = null;
+      runPedalGesture(key, 'press');
+    };
+
+    const handlePedalDown = (key: string, isRepeat: boolean) => {
+      // Maintien : géré par le timeout d'appui long
+      if (isRepeat) return;
+
+      // Deuxième appui dans la fenêtre : double appui
+      if (pendingTapRef.current?.key === key) {
+        clearTimeout(pendingTapRef.current.timeout);
+        pendingTapRef.current = null;
+        pedalPressRef.current = { key, handled: true };
+        runPedalGesture(key, 'doublePress');
+        return;
+      }
+      flushPendingTap();
+
+      pedalPressRef.current = { key, handled: false };
+      stopContinuousSeek();
+
+      // Même seuil que le défilement continu des flèches
+      holdTimeoutRef.current = window.setTimeout(() => {
+        holdTimeoutRef.current = null;
+        const press = pedalPressRef.current;
+        const action = getPedalAction(pedalOverrides, key, 'longPress');
+        if (!press || press.key !== key || !action) return;
+
+        press.handled = true;
+        if (action === 'rewind' || action === 'forward') {
+          // Défilement continu jusqu'au relâchement
+          startContinuousSeek(action === 'rewind' ? -1 : 1);
+        } else {
+          runPedalAction(action);
+        }
+      }, HOLD_THRESHOLD);
+    };
+
+    const handlePedalUp = (key: string) => {
+      const press = pedalPressRef.current;
+      if (press?.key !== key) return;
+      pedalPressRef.current = null;
+      stopContinuousSeek();
+      if (press.handled) return;
+
+      // Attendre un éventuel double appui seulement s'il fait quelque chose
+      if (getPedalAction(pedalOverrides, key, 'doublePress')) {
+        pendingTapRef.current = {
+          key,
+          timeout: window.setTimeout(flushPendingTap, DOUBLE_PRESS_WINDOW),
+        };
+      } else {
+        runPedalGesture(key, 'press');
+      }
+    };
+
+    const isPedalKey = (e: KeyboardEvent) =>
+      pedalMode && PEDAL_KEYS.includes(e.key) && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey;
+
+    // Enter and arrows keep their own meaning in dialogs, menus, lists and focused controls
+    const isInteractiveTarget = (target: HTMLElement) =>
+      target.isContentEditable ||
+      !!target.closest('[role="dialog"], [role="menu"], [role="listbox"], [contenteditable="true"]') ||
+      target.matches(INTERACTIVE_SELECTOR);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Ignore si on est dans un input ou textarea
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+
+      if (isPedalKey(e)) {
+        if (isInteractiveTarget(target)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        handlePedalDown(e.key, e.repeat);
+        return;
+      }
+
+      const binding = eventToBinding(e);
+      const action = binding && findShortcutAction(bindings, binding);
+      if (!action) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.repeat && !REPEATABLE.includes(action.command)) return;
+
+      runAction(action, e);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isPedalKey(e) && pedalPressRef.current) {
+        e.preventDefault();
+        e.stopPropagation();
+        handlePedalUp(e.key);
+        return;
+      }
+
+      if (e.code !== heldKeyRef.current) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+
+      // Arrêter le défilement continu
+      stopContinuousSeek();
+
+      // Si c'était un appui court (pas en mode continu)
+      if (keyPressTimeRef.current !== null && !isInContinuousModeRef.current) {
+        seekBy(currentDirectionRef.current * SINGLE_PRESS_SEEK);
+      }
+
+      keyPressTimeRef.current = null;
+      isInContinuousModeRef.current = false;
+      currentDirectionRef.current = 0;
+      heldKeyRef.current = null;
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      stopContinuousSeek();
+      if (pendingTapRef.current) clearTimeout(pendingTapRef.current.timeout);
+    };
+  }, [shortcutOverrides, pedalMode, pedalOverrides]);
+};
@@ -0,0 +1,41 @@
+/**
+ * Labels of the shortcut registry
+ * Keys are written out so i18next-parser keeps them on extract
+ */
+
+import type { TFunction } from 'i18next';
+import type { ShortcutAction, ShortcutCommand, ShortcutGroup } from '../utils/shortcuts';
+
+const GROUP_LABELS: Record<ShortcutGroup, (t: TFunction) => string> = {
+  transport: t => t('shortcuts.groups.transport'),
+  markers: t => t('shortcuts.groups.markers'),
+  loops: t => t('shortcuts.groups.loops'),
+  mixer: t => t('shortcuts.groups.mixer'),
+  speed: t => t('shortcuts.groups.speed'),
+  view: t => t('shortcuts.groups.view'),
+  edit: t => t('shortcuts.groups.edit'),
+};
+
+const ACTION_LABELS: Record<ShortcutCommand, (t: TFunction, n?: number) => string> = {
+  playPause: t => t('shortcuts.actions.playPause'),
+  seekBackward: t => t('shortcuts.actions.seekBackward'),
+  seekForward: t => t('shortcuts.actions.seekForward'),
+  jumpToStart: t => t('shortcuts.actions.jumpToStart'),
+  addMarker: t => t('shortcuts.actions.addMarker'),
+  previousMarker: t => t('shortcuts.actions.previousMarker'),
+  nextMarker: t => t('shortcuts.actions.nextMarker'),
+  quickLoop: t => t('shortcuts.actions.quickLoop'),
+  toggleLoop: (t, n) => t('shortcuts.actions.toggleLoop', { n }),
+  muteTrack: (t, n) => t('shortcuts.actions.muteTrack', { n }),
+  soloTrack: (t, n) => t('shortcuts.actions.soloTrack', { n }),
+  speedUp: t => t('shortcuts.actions.speedUp'),
+  speedDown: t => t('shortcuts.actions.speedDown'),
+  zoomIn: t => t('shortcuts.actions.zoomIn'),
+  zoomOut: t => t('shortcuts.actions.zoomOut'),
+  undo: t => t('shortcuts.actions.undo'),
+  redo: t => t('shortcuts.actions.redo'),
+};
+
+export const shortcutGroupLabel = (t: TFunction, group: ShortcutGroup) => GROUP_LABELS[group](t);
+
+export const shortcutActionLabel = (t: TFunction, action: ShortcutAction) => ACTION_LABELS[action.command](t, action.index);
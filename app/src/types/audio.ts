@@ -3,6 +3,13 @@ export interface AudioTrack {
   name: string;
   file?: File; // Optional for recordable tracks
   volume: number; // 0-1
+  pan: number; // -1 (left) to 1 (right)
+  timeOffset: number; // Seconds (ms resolution), shifts the stem on the shared timeline
+  trimStart: number; // Seconds of audio hidden at the start (non-destructive, the rest keeps its place)
+  trimEnd: number; // Seconds of audio skipped at the end
+  fadeIn?: number; // Seconds, from the (trimmed) start
+  fadeOut?: number; // Seconds, up to the (trimmed) end
+  eq?: TrackEQ; // Not set until the EQ is first edited
   isMuted: boolean;
   isSolo: boolean;
   color: string;
@@ -17,11 +24,25 @@ export interface AudioTrack {
   recordingStartOffset?: number; // Time offset in seconds when recording started
 }
 
+// Per-track tone shaping (gains in dB, frequencies in Hz)
+export interface TrackEQ {
+  enabled: boolean;
+  lowGain: number;
+  midGain: number;
+  highGain: number;
+  highPassEnabled: boolean;
+  highPassFrequency: number;
+  lowPassEnabled: boolean;
+  lowPassFrequency: number;
+}
+
 export interface PlaybackState {
   isPlaying: boolean;
   currentTime: number;
   duration: number;
   playbackRate: number; // 0.5 - 2.0
+  pitchSemitones: number; // -12 to +12, independent of playbackRate
+  pitchCents: number; // -50 to +50 fine-tune
 }
 
 // Loop v2 types
@@ -30,6 +51,20 @@ export interface Marker {
   time: number;
   createdAt: number;
   label?: string;
+  color?: string; // Theme colour when missing
+  kind?: MarkerKind; // 'cue' when missing
+}
+
+// Section start (Verse, Chorus...), plain cue point, or note
+export type MarkerKind = 'section' | 'cue' | 'note';
+
+// Progressive tempo ramp applied each time the loop wraps
+export interface SpeedTrainer {
+  enabled: boolean;
+  startRate: number; // Rate when the loop is activated (e.g. 0.6)
+  targetRate: number; // Rate where the ramp stops (e.g. 1.0)
+  increment: number; // Rate added per step (e.g. 0.05)
+  cleanReps: number; // Clean repetitions required before each step (1 = every wrap)
 }
 
 export interface Loop {
@@ -38,6 +73,106 @@ export interface Loop {
   endMarkerId: string;
   enabled: boolean;
   createdAt: number;
+  speedTrainer?: SpeedTrainer;
+  preRoll?: LoopPreRoll;
+  repeatCount?: number; // Passes before `onComplete` runs (unset or 0 = repeat forever)
+  onComplete?: LoopCompleteAction;
+}
+
+// What happens after the last counted pass of a loop
+export type LoopCompleteAction = 'stop' | 'continue' | 'next';
+
+// Runtime pass counter of the active loop
+export interface LoopRepeatProgress {
+  loopId: string;
+  pass: number; // 1 = first pass
+}
+
+// Run-up played before the loop start marker, with an optional click count-in
+export interface LoopPreRoll {
+  enabled: boolean;
+  amount: number; // In `unit`
+  unit: 'seconds' | 'beats'; // Beats follow the piece's beat grid
+  everyPass: boolean; // false: first pass only, later passes wrap straight to the start marker
+  countIn: boolean; // Metronome clicks during the pre-roll, even when the metronome is off
+}
+
+// Runtime progress of the speed trainer on the active loop
+export interface SpeedTrainerProgress {
+  loopId: string;
+  cleanReps: number; // Clean repetitions at the current rate
+  hadMistake: boolean; // Current repetition flagged as not clean
+}
+
+// Message shown when a marker or loop can't be created (i18n key under `markers.notices`)
+export interface LoopNotice {
+  key: 'markerLimit' | 'loopLimit' | 'loopTooShort';
+  values?: Record<string, number>;
+}
+
+// A/B loop captured from the transport (point A set, then B)
+export interface QuickLoop {
+  startMarkerId: string;
+  endMarkerId: string | null;
+  loopId: string | null;
+}
+
+// Keyboard shortcuts changed by the user, by action id (null = unbound)
+export type ShortcutOverrides = Record<string, string | null>;
+
+// Pedal mode: practice actions, and how a pedal is pressed
+export type PedalAction =
+  | 'playPause'
+  | 'restartLoop'
+  | 'toggleLoop'
+  | 'nextLoop'
+  | 'previousLoop'
+  | 'addMarker'
+  | 'quickLoop'
+  | 'rewind'
+  | 'forward';
+export type PedalGesture = 'press' | 'longPress' | 'doublePress';
+
+// Pedal actions changed by the user, by "key:gesture" (null = nothing)
+export type PedalOverrides = Record<string, PedalAction | null>;
+
+// Mixer state of one track in the undo history (array order = track order)
+export interface TrackMixSnapshot {
+  id: string;
+  volume: number;
+  isMuted: boolean;
+  isSolo: boolean;
+}
+
+// One undoable edit of the current piece
+export type HistoryEntry =
+  | { type: 'loops'; before: LoopState; after: LoopState }
+  | { type: 'mixer'; before: TrackMixSnapshot[]; after: TrackMixSnapshot[] }
+  | { type: 'removeTrack'; track: AudioTrack; index: number }
+  | { type: 'renamePiece'; pieceId: string; before: string; after: string }
+  | { type: 'group'; entries: HistoryEntry[] }; // Several edits undone together
+
+// Practice routine: ordered loops, each with its own repeats, speed and mix
+export interface RoutineStep {
+  id: string;
+  loopId: string | null; // null = full take (whole piece, once)
+  repeatCount: number; // Passes of the loop (ignored for a full take)
+  playbackRate: number;
+  mix?: Record<string, { isMuted: boolean; isSolo: boolean }>; // Mute/solo snapshot by track id, current mix kept when missing
+}
+
+export interface Routine {
+  id: string;
+  pieceId: string;
+  name: string;
+  steps: RoutineStep[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RoutineProgress {
+  routineId: string;
+  stepIndex: number;
 }
 
 export interface LoopState {
@@ -47,12 +182,45 @@ export interface LoopState {
   editMode: boolean;
 }
 
+// Where new/dragged markers land: free, on the beat grid, or on a zero crossing of the reference track
+export type SnapMode = 'off' | 'beat' | 'bar' | 'zeroCrossing';
+
+// Beat grid & metronome types
+export interface BeatGrid {
+  bpm: number; // Quarter notes per minute
+  beatsPerBar: number; // Time signature numerator
+  beatUnit: number; // Time signature denominator
+  downbeatOffset: number; // Seconds, position of the first downbeat
+}
+
+export interface MetronomeState {
+  enabled: boolean;
+  volume: number; // 0-1
+  isMuted: boolean;
+}
+
+// Cached result of automatic tempo detection for a track
+export interface TempoAnalysis {
+  trackId: string;
+  bpm: number;
+  downbeatOffset: number; // Seconds
+  confidence: number; // 0-1
+  analyzedAt: number;
+}
+
 // Piece (morceau) types
 export interface PieceSettings {
   trackSettings: Array<{
     id: string;
     name: string;
     volume: number;
+    pan?: number; // Missing in pieces saved before stereo pan
+    timeOffset?: number;
+    trimStart?: number;
+    trimEnd?: number;
+    fadeIn?: number;
+    fadeOut?: number;
+    eq?: TrackEQ;
     isMuted: boolean;
     isSolo: boolean;
     color: string;
@@ -65,7 +233,12 @@ export interface PieceSettings {
     activeLoopId: string | null;
   };
   playbackRate: number;
+  pitchSemitones?: number;
+  pitchCents?: number;
   masterVolume: number;
+  limiterEnabled?: boolean;
+  beatGrid?: BeatGrid;
+  metronome?: MetronomeState;
 }
 
 export interface Piece {
@@ -88,12 +261,31 @@ export interface AudioStore {
   loopState: LoopState; // Loop v2
   audioContext: AudioContext | null;
   masterVolume: number; // 0-1
+  limiterEnabled: boolean; // Output limiter on the master bus
   showLoopPanel: boolean;
   zoomLevel: number;
   waveformStyle: 'modern' | 'classic';
   waveformNormalize: boolean;
   waveformTimeline: boolean;
   waveformMinimap: boolean;
+  cursorLagThreshold: number; // ms before a cursor is shown as lagging
+  showCursorLagOverlay: boolean;
+  gainRampTime: number; // ms, smooths mute/solo/volume changes, starts and stops
+  snapMode: SnapMode;
+  shortcutOverrides: ShortcutOverrides;
+  pedalMode: boolean; // Page-turner keys run pedal actions instead of their shortcuts
+  pedalOverrides: PedalOverrides;
+  beatGrid: BeatGrid;
+  metronome: MetronomeState;
+  tempoSuggestion: TempoAnalysis | null; // Detected tempo offered to the user
+  speedTrainerProgress: SpeedTrainerProgress | null;
+  loopRepeatProgress: LoopRepeatProgress | null;
+  routines: Routine[]; // Practice routines of the current piece
+  routineProgress: RoutineProgress | null; // Routine being run
+  quickLoop: QuickLoop | null; // A/B capture in progress or active
+  loopNotice: LoopNotice | null;
+  undoStack: HistoryEntry[]; // Edits of the current piece, most recent last
+  redoStack: HistoryEntry[];
   _preserveLoopOnNextSeek?: boolean; // Internal flag for loop activation
   currentPieceId: string | null;
   currentPieceName: string;
@@ -111,6 +303,11 @@ export interface AudioStore {
   updateTrack: (id: string, updates: Partial<AudioTrack>) => void;
   reorderTracks: (fromIndex: number, toIndex: number) => void;
   setVolume: (id: string, volume: number) => void;
+  setPan: (id: string, pan: number) => void;
+  setTrackEQ: (id: string, updates: Partial<TrackEQ>) => void;
+  setTrackOffset: (id: string, timeOffset: number) => void;
+  setTrackTrim: (id: string, trim: { start?: number; end?: number }) => void;
+  setTrackFades: (id: string, fades: { fadeIn?: number; fadeOut?: number }) => void;
   toggleMute: (id: string) => void;
   toggleSolo: (id: string) => void;
   exclusiveSolo: (id: string) => void;
@@ -128,19 +325,53 @@ export interface AudioStore {
   pause: () => void;
   seek: (time: number) => void;
   setPlaybackRate: (rate: number) => void;
+  setPitch: (semitones: number, cents: number) => void;
   setMasterVolume: (volume: number) => void;
+  setLimiterEnabled: (enabled: boolean) => void;
   
   toggleLoopPanel: () => void;
 
+  // Metronome actions
+  setBeatGrid: (updates: Partial<BeatGrid>) => void;
+  setMetronome: (updates: Partial<MetronomeState>) => void;
+  analyzeTrackTempo: (trackId: string, file: Blob) => Promise<void>;
+  applyTempoSuggestion: () => void;
+  dismissTempoSuggestion: () => void;
+
   // Loop v2 actions
   toggleLoopEditMode: () => void;
-  addMarker: (time: number, label?: string) => string;
+  addMarker: (time: number, label?: string, options?: { snap?: boolean }) => string;
   removeMarker: (id: string) => void;
-  updateMarkerTime: (id: string, time: number) => void;
+  updateMarkerTime: (id: string, time: number, options?: { snap?: boolean }) => void;
+  updateMarker: (id: string, updates: Partial<Pick<Marker, 'label' | 'color' | 'kind'>>) => void;
   createLoop: (startMarkerId: string, endMarkerId: string) => string;
+  addLoop: (start: number, end: number, options?: { snap?: boolean }) => string;
   removeLoop: (id: string) => void;
   toggleLoopById: (id: string) => void;
   setActiveLoop: (id: string | null) => void;
+  updateLoopSpeedTrainer: (loopId: string, updates: Partial<SpeedTrainer>) => void;
+  updateLoopPreRoll: (loopId: string, updates: Partial<LoopPreRoll>) => void;
+  restartSpeedTrainer: (loopId: string) => void;
+  handleLoopWrap: (loopId: string) => void;
+  updateLoopRepeat: (loopId: string, updates: { repeatCount?: number; onComplete?: LoopCompleteAction }) => void;
+  handleLoopComplete: (loopId: string) => void;
+  markLoopMistake: () => void;
+  captureQuickLoopPoint: () => void;
+  dismissLoopNotice: () => void;
+
+  // Practice routine actions
+  saveRoutine: (routine: Routine) => Promise<void>;
+  deleteRoutine: (id: string) => Promise<void>;
+  startRoutine: (id: string) => void;
+  stopRoutine: () => void;
+  advanceRoutine: () => void;
+
+  // Undo/redo actions
+  recordHistory: (entry: HistoryEntry, mergeKey?: string) => void;
+  groupHistory: (edit: () => void) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clearHistory: () => void;
 
   zoomIn: () => void;
   zoomOut: () => void;
@@ -148,6 +379,15 @@ export interface AudioStore {
   setWaveformNormalize: (normalize: boolean) => void;
   setWaveformTimeline: (timeline: boolean) => void;
   setWaveformMinimap: (minimap: boolean) => void;
+  setCursorLagThreshold: (threshold: number) => void;
+  setShowCursorLagOverlay: (show: boolean) => void;
+  setGainRampTime: (ms: number) => void;
+  setSnapMode: (mode: SnapMode) => void;
+  setShortcut: (actionId: string, binding: string | null) => void;
+  resetShortcuts: () => void;
+  setPedalMode: (enabled: boolean) => void;
+  setPedalAction: (key: string, gesture: PedalGesture, action: PedalAction | null) => void;
+  resetPedalMap: () => void;
   
   initAudioContext: () => void;
 
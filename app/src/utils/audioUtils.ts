@@ -165,9 +165,9 @@ export async function addSilencePadding(
 }
 
 /**
- * Convert AudioBuffer to WAV Blob
+ * Convert AudioBuffer to WAV Blob (16-bit PCM)
  */
-function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
   const numberOfChannels = buffer.numberOfChannels;
   const length = buffer.length * numberOfChannels * 2; // 16-bit samples
   const arrayBuffer = new ArrayBuffer(44 + length);
@@ -224,3 +224,28 @@ export function formatRecordingTime(milliseconds: number): string {
   const seconds = totalSeconds % 60;
   return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Nearest zero crossing of the channel mix around `time` (seconds), searched within `maxDistance`
+ * Returns null when the signal doesn't cross zero in the window
+ */
+export function findNearestZeroCrossing(buffer: AudioBuffer, time: number, maxDistance: number): number | null {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const sampleAt = (i: number) => channels.reduce((sum, data) => sum + data[i], 0);
+
+  const center = Math.round(time * buffer.sampleRate);
+  const radius = Math.round(maxDistance * buffer.sampleRate);
+
+  // Walk outwards so the first sign change found is the closest one
+  for (let distance = 0; distance <= radius; distance++) {
+    for (const i of [center - distance, center + distance]) {
+      if (i < 1 || i >= buffer.length) continue;
+      const previous = sampleAt(i - 1);
+      const current = sampleAt(i);
+      if (current === 0 || (previous < 0) !== (current < 0)) {
+        return i / buffer.sampleRate;
+      }
+    }
+  }
+  return null;
+}
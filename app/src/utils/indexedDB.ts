@@ -1,11 +1,13 @@
 // IndexedDB helper for storing audio files and pieces
-import type { Piece, PieceSettings } from '../types/audio';
+import type { Piece, PieceSettings, Routine, TempoAnalysis } from '../types/audio';
 
 const DB_NAME = 'PracticeTracksDB';
 const STORE_NAME = 'audioFiles';
 const PIECES_STORE = 'pieces';
 const PIECE_SETTINGS_STORE = 'pieceSettings';
-const DB_VERSION = 2;
+const TEMPO_ANALYSIS_STORE = 'tempoAnalysis';
+const ROUTINES_STORE = 'routines';
+const DB_VERSION = 4;
 
 let db: IDBDatabase | null = null;
 
@@ -41,6 +43,17 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!database.objectStoreNames.contains(PIECE_SETTINGS_STORE)) {
         database.createObjectStore(PIECE_SETTINGS_STORE, { keyPath: 'id' });
       }
+
+      // Create tempoAnalysis store if it doesn't exist (cached BPM detection per track)
+      if (!database.objectStoreNames.contains(TEMPO_ANALYSIS_STORE)) {
+        database.createObjectStore(TEMPO_ANALYSIS_STORE, { keyPath: 'trackId' });
+      }
+
+      // Create routines store if it doesn't exist (practice routines, indexed by piece)
+      if (!database.objectStoreNames.contains(ROUTINES_STORE)) {
+        const routines = database.createObjectStore(ROUTINES_STORE, { keyPath: 'id' });
+        routines.createIndex('pieceId', 'pieceId', { unique: false });
+      }
     };
   });
 };
@@ -212,6 +225,27 @@ export const savePieceSettings = async (id: string, settings: PieceSettings): Pr
   });
 };
 
+/**
+ * Merge updates into a piece's settings in a single transaction
+ * Fields not present in `updates` are kept as stored
+ */
+export const updatePieceSettings = async (id: string, updates: Partial<PieceSettings>): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([PIECE_SETTINGS_STORE], 'readwrite');
+    const store = transaction.objectStore(PIECE_SETTINGS_STORE);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const putRequest = store.put({ ...(getRequest.result || {}), ...updates, id });
+      putRequest.onsuccess = () => resolve();
+      putRequest.onerror = () => reject(putRequest.error);
+    };
+    getRequest.onerror = () => reject(getRequest.error);
+  });
+};
+
 export const getPieceSettings = async (id: string): Promise<PieceSettings | null> => {
   const database = await initDB();
   
@@ -260,6 +294,132 @@ export const clearAllPieceSettings = async (): Promise<void> => {
   });
 };
 
+// Tempo analysis cache (keyed by track id)
+export const saveTempoAnalysis = async (analysis: TempoAnalysis): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPO_ANALYSIS_STORE], 'readwrite');
+    const store = transaction.objectStore(TEMPO_ANALYSIS_STORE);
+    const request = store.put(analysis);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getTempoAnalysis = async (trackId: string): Promise<TempoAnalysis | null> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPO_ANALYSIS_STORE], 'readonly');
+    const store = transaction.objectStore(TEMPO_ANALYSIS_STORE);
+    const request = store.get(trackId);
+
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteTempoAnalysis = async (trackId: string): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPO_ANALYSIS_STORE], 'readwrite');
+    const store = transaction.objectStore(TEMPO_ANALYSIS_STORE);
+    const request = store.delete(trackId);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const clearAllTempoAnalyses = async (): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([TEMPO_ANALYSIS_STORE], 'readwrite');
+    const store = transaction.objectStore(TEMPO_ANALYSIS_STORE);
+    const request = store.clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Practice routines (several per piece)
+export const saveRoutine = async (routine: Routine): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([ROUTINES_STORE], 'readwrite');
+    const store = transaction.objectStore(ROUTINES_STORE);
+    const request = store.put(routine);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getRoutinesForPiece = async (pieceId: string): Promise<Routine[]> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([ROUTINES_STORE], 'readonly');
+    const store = transaction.objectStore(ROUTINES_STORE);
+    const request = store.index('pieceId').getAll(pieceId);
+
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteRoutine = async (id: string): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([ROUTINES_STORE], 'readwrite');
+    const store = transaction.objectStore(ROUTINES_STORE);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteRoutinesForPiece = async (pieceId: string): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([ROUTINES_STORE], 'readwrite');
+    const store = transaction.objectStore(ROUTINES_STORE);
+    const request = store.index('pieceId').openKeyCursor(IDBKeyRange.only(pieceId));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const clearAllRoutines = async (): Promise<void> => {
+  const database = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([ROUTINES_STORE], 'readwrite');
+    const store = transaction.objectStore(ROUTINES_STORE);
+    const request = store.clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
 // Get file size for a specific track
 export const getAudioFileSize = async (id: string): Promise<number> => {
   const database = await initDB();
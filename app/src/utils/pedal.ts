@@ -0,0 +1,58 @@
+/**
+ * Pedal mode: hands-free control with Bluetooth page-turner pedals
+ * Each pedal key runs a practice action on a press, a long press or a double press
+ */
+
+import type { PedalAction, PedalGesture, PedalOverrides } from '../types/audio';
+
+// Keys sent by common page turners (2-4 pedals)
+export const PEDAL_KEYS = ['PageDown', 'PageUp', 'ArrowRight', 'ArrowLeft', 'ArrowDown', 'ArrowUp', 'Enter'];
+
+export const PEDAL_GESTURES: PedalGesture[] = ['press', 'longPress', 'doublePress'];
+
+export const PEDAL_ACTIONS: PedalAction[] = [
+  'playPause',
+  'restartLoop',
+  'toggleLoop',
+  'nextLoop',
+  'previousLoop',
+  'addMarker',
+  'quickLoop',
+  'rewind',
+  'forward',
+];
+
+export const DOUBLE_PRESS_WINDOW = 300; // ms to wait for a second press
+
+// Right pedal drives playback, left pedal loops and markers
+// No double press on the play pedal: play/pause would wait for a possible second press
+const DEFAULT_PEDAL_MAP: Record<string, PedalAction | null> = {
+  'PageDown:press': 'playPause',
+  'PageDown:longPress': 'restartLoop',
+  'PageUp:press': 'addMarker',
+  'PageUp:longPress': 'toggleLoop',
+  'PageUp:doublePress': 'previousLoop',
+  'ArrowRight:press': 'playPause',
+  'ArrowRight:longPress': 'restartLoop',
+  'ArrowLeft:press': 'addMarker',
+  'ArrowLeft:longPress': 'toggleLoop',
+  'ArrowLeft:doublePress': 'previousLoop',
+  'ArrowDown:press': 'forward',
+  'ArrowDown:longPress': 'forward',
+  'ArrowUp:press': 'rewind',
+  'ArrowUp:longPress': 'rewind',
+  'Enter:press': 'quickLoop',
+};
+
+export const pedalSlot = (key: string, gesture: PedalGesture) => `${key}:${gesture}`;
+
+/**
+ * Action of a pedal gesture (defaults with the user's changes)
+ */
+export const getPedalAction = (overrides: PedalOverrides, key: string, gesture: PedalGesture): PedalAction | null => {
+  const slot = pedalSlot(key, gesture);
+  return slot in overrides ? overrides[slot] : DEFAULT_PEDAL_MAP[slot] ?? null;
+};
+
+export const isDefaultPedalAction = (key: string, gesture: PedalGesture, action: PedalAction | null) =>
+  (DEFAULT_PEDAL_MAP[pedalSlot(key, gesture)] ?? null) === action;
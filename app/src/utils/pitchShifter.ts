@@ -0,0 +1,160 @@
+/**
+ * Granular pitch shifter built from native Web Audio nodes
+ * Two modulated delay lines are crossfaded so the delay sweep is never heard,
+ * which shifts the pitch without changing the duration of the signal.
+ * Works with any BaseAudioContext (realtime or offline).
+ */
+
+const BUFFER_TIME = 0.1; // seconds per delay sweep
+const FADE_TIME = 0.05; // seconds of crossfade between the two delay lines
+const MAX_DELAY_TIME = 1; // seconds (covers two octaves of shift)
+const MAX_SWEEP = (MAX_DELAY_TIME / BUFFER_TIME) - 1;
+const START_DELAY = 0.05; // seconds before modulation starts
+const BYPASS_EPSILON = 0.0005; // ratios this close to 1 are passed through untouched
+
+// Equal-power fade-in/fade-out window, looped to alternate the delay lines
+const createFadeBuffer = (context: BaseAudioContext): AudioBuffer => {
+  const length = Math.floor(BUFFER_TIME * context.sampleRate);
+  const fadeLength = Math.floor(FADE_TIME * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (let i = 0; i < length; i++) {
+    if (i < fadeLength) {
+      data[i] = Math.sqrt(i / fadeLength);
+    } else if (i >= length - fadeLength) {
+      data[i] = Math.sqrt(1 - (i - (length - fadeLength)) / fadeLength);
+    } else {
+      data[i] = 1;
+    }
+  }
+
+  return buffer;
+};
+
+// Linear 0→1 (shift down) or 1→0 (shift up) ramp driving the delay time
+const createDelayRampBuffer = (context: BaseAudioContext, shiftUp: boolean): AudioBuffer => {
+  const length = Math.floor(BUFFER_TIME * context.sampleRate);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (let i = 0; i < length; i++) {
+    data[i] = shiftUp ? (length - i) / length : i / length;
+  }
+
+  return buffer;
+};
+
+export class PitchShifter {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private context: BaseAudioContext;
+  private dry: GainNode;
+  private wet: GainNode;
+  private shiftDownGains: GainNode[] = [];
+  private shiftUpGains: GainNode[] = [];
+  private sweepGains: GainNode[] = [];
+  private sources: AudioBufferSourceNode[] = [];
+  private ratio = 1;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+    this.wet.gain.value = 0;
+
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.wet.connect(this.output);
+
+    const shiftDownBuffer = createDelayRampBuffer(context, false);
+    const shiftUpBuffer = createDelayRampBuffer(context, true);
+    const fadeBuffer = createFadeBuffer(context);
+
+    const start = context.currentTime + START_DELAY;
+    const offsetStart = start + BUFFER_TIME - FADE_TIME;
+
+    // Two identical lines, the second one offset by half a sweep
+    [start, offsetStart].forEach((when) => {
+      const delay = context.createDelay(MAX_DELAY_TIME);
+      const sweepGain = context.createGain();
+      sweepGain.gain.value = 0;
+      sweepGain.connect(delay.delayTime);
+
+      const shiftDown = this.createLoop(shiftDownBuffer);
+      const shiftDownGain = context.createGain();
+      shiftDown.connect(shiftDownGain);
+      shiftDownGain.connect(sweepGain);
+
+      const shiftUp = this.createLoop(shiftUpBuffer);
+      const shiftUpGain = context.createGain();
+      shiftUpGain.gain.value = 0;
+      shiftUp.connect(shiftUpGain);
+      shiftUpGain.connect(sweepGain);
+
+      const fade = this.createLoop(fadeBuffer);
+      const mix = context.createGain();
+      mix.gain.value = 0;
+      fade.connect(mix.gain);
+
+      this.input.connect(delay);
+      delay.connect(mix);
+      mix.connect(this.wet);
+
+      shiftDown.start(when);
+      shiftUp.start(when);
+      fade.start(when);
+
+      this.shiftDownGains.push(shiftDownGain);
+      this.shiftUpGains.push(shiftUpGain);
+      this.sweepGains.push(sweepGain);
+    });
+  }
+
+  /**
+   * Set the pitch ratio (2 = one octave up, 0.5 = one octave down)
+   */
+  setRatio(ratio: number) {
+    if (Math.abs(ratio - this.ratio) < BYPASS_EPSILON) return;
+    this.ratio = ratio;
+
+    const now = this.context.currentTime;
+    const bypass = Math.abs(ratio - 1) < BYPASS_EPSILON;
+    const shiftUp = ratio > 1;
+    const sweep = Math.min(Math.abs(ratio - 1), MAX_SWEEP);
+
+    this.dry.gain.setTargetAtTime(bypass ? 1 : 0, now, 0.01);
+    this.wet.gain.setTargetAtTime(bypass ? 0 : 1, now, 0.01);
+
+    this.shiftDownGains.forEach(g => g.gain.setValueAtTime(shiftUp ? 0 : 1, now));
+    this.shiftUpGains.forEach(g => g.gain.setValueAtTime(shiftUp ? 1 : 0, now));
+    this.sweepGains.forEach(g => g.gain.setTargetAtTime(sweep * BUFFER_TIME, now, 0.01));
+  }
+
+  getRatio() {
+    return this.ratio;
+  }
+
+  disconnect() {
+    this.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Source not started yet
+      }
+    });
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private createLoop(buffer: AudioBuffer) {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    this.sources.push(source);
+    return source;
+  }
+}
@@ -30,12 +30,14 @@ export const getWaveSurferElement = (containerRef: React.RefObject<HTMLDivElemen
 };
 
 // Inject markers and loops into Shadow DOM
+// Elements are keyed by id and updated in place, so hundreds of markers don't rebuild the DOM on every change
 export const injectMarkersAndLoops = (
     wsElement: HTMLElement,
     loopState: LoopState,
     playbackState: PlaybackState,
     theme: Theme,
-    trackDuration: number
+    trackDuration: number,
+    timeOffset = 0 // Track position on the timeline: marker times are shifted into this track's own time
 ) => {
     if (!wsElement || !wsElement.shadowRoot) return;
 
@@ -46,91 +48,137 @@ export const injectMarkersAndLoops = (
     const globalDuration = playbackState.duration;
     if (globalDuration === 0) return;
 
-    // Remove existing markers/loops
-    wrapper.querySelectorAll('[data-loop-marker], [data-loop-zone]').forEach(el => el.remove());
+    // Elements already injected, by id (whatever is left at the end is stale)
+    const staleZones = new Map<string, HTMLElement>();
+    wrapper.querySelectorAll<HTMLElement>('[data-loop-zone]').forEach(el => {
+        staleZones.set(el.getAttribute('data-loop-zone')!, el);
+    });
+    const staleMarkers = new Map<string, HTMLElement>();
+    wrapper.querySelectorAll<HTMLElement>('[data-loop-marker]').forEach(el => {
+        staleMarkers.set(el.getAttribute('data-loop-marker')!, el);
+    });
 
     const isPlaying = playbackState.isPlaying;
+    const markersById = new Map(loopState.markers.map(m => [m.id, m]));
+
+    // Convert theme colors to rgba
+    const primaryColor = theme.palette.primary.light;
+    const greyColor =  theme.palette.grey[500];
+
+    // Markers at either end of the loop being played
+    const activeEndpoints = new Set<string>();
 
     // Inject loops first (under markers visually)
     loopState.loops.forEach(loop => {
-        const startMarker = loopState.markers.find(m => m.id === loop.startMarkerId);
-        const endMarker = loopState.markers.find(m => m.id === loop.endMarkerId);
+        const startMarker = markersById.get(loop.startMarkerId);
+        const endMarker = markersById.get(loop.endMarkerId);
 
         if (!startMarker || !endMarker) return;
 
         // Render loop position based on THIS track's duration
-        const startPercent = (startMarker.time / trackDuration) * 100;
+        const startPercent = ((startMarker.time - timeOffset) / trackDuration) * 100;
         const widthPercent = ((endMarker.time - startMarker.time) / trackDuration) * 100;
 
         // Loop is "active" (blue) only if enabled AND playing
         const isActiveLoop = loop.enabled && isPlaying;
+        if (isActiveLoop) {
+            activeEndpoints.add(loop.startMarkerId);
+            activeEndpoints.add(loop.endMarkerId);
+        }
 
-        // Convert theme colors to rgba
-        const primaryColor = theme.palette.primary.light;
-        const greyColor =  theme.palette.grey[500];
+        let loopDiv = staleZones.get(loop.id);
+        if (loopDiv) {
+            staleZones.delete(loop.id);
+        } else {
+            loopDiv = document.createElement('div');
+            loopDiv.setAttribute('data-loop-zone', loop.id);
+            loopDiv.style.position = 'absolute';
+            loopDiv.style.top = '0';
+            loopDiv.style.bottom = '0';
+            loopDiv.style.backgroundColor = `${alpha(greyColor, 0.2)}`
+            loopDiv.style.borderWidth = '2px'
+            loopDiv.style.borderStyle = "solid";
+            loopDiv.style.borderLeftStyle = "none";
+            loopDiv.style.borderRightStyle = "none";
+            // loopDiv.style.borderRadius = '6px';
+            loopDiv.style.zIndex = '5';
+            loopDiv.style.pointerEvents = 'none';
+            loopDiv.style.transition = 'background-color 0.2s, border-color 0.2s, transform 0.1s';
+            wrapper.appendChild(loopDiv);
+        }
 
-        const loopDiv = document.createElement('div');
-        loopDiv.setAttribute('data-loop-zone', loop.id);
-        loopDiv.style.position = 'absolute';
         loopDiv.style.left = `${startPercent}%`;
         loopDiv.style.width = `${widthPercent}%`;
-        loopDiv.style.top = '0';
-        loopDiv.style.bottom = '0';
-        loopDiv.style.backgroundColor = `${alpha(greyColor, 0.2)}`
-        loopDiv.style.borderWidth = '2px'
-        loopDiv.style.borderStyle = "solid";
-        loopDiv.style.borderLeftStyle = "none";
-        loopDiv.style.borderRightStyle = "none";
         loopDiv.style.borderColor = isActiveLoop ? primaryColor : "transparent";
-        // loopDiv.style.borderRadius = '6px';
-        loopDiv.style.zIndex = '5';
-        loopDiv.style.pointerEvents = 'none';
-        loopDiv.style.transition = 'background-color 0.2s, border-color 0.2s, transform 0.1s';
-
-        wrapper.appendChild(loopDiv);
     });
 
     // Inject markers
+    const markerTextColor =  theme.palette.text.secondary;
     loopState.markers.forEach((marker, index) => {
         // Render marker position based on THIS track's duration
-        const leftPercent = (marker.time / trackDuration) * 100;
-
-        const isInActiveLoop = loopState.loops.find(
-            l => l.enabled && isPlaying && (l.startMarkerId === marker.id || l.endMarkerId === marker.id)
-        );
-
-        const primaryColor = theme.palette.primary.light;
-        // const greyColor =  theme.palette.grey[500];
-        const greyColor =  theme.palette.text.secondary;
+        const leftPercent = ((marker.time - timeOffset) / trackDuration) * 100;
+
+        const isInActiveLoop = activeEndpoints.has(marker.id);
+        const markerColor = marker.color ?? markerTextColor;
+        const lineColor = isInActiveLoop ? primaryColor : markerColor;
+        const kind = marker.kind ?? 'cue';
+
+        let markerDiv = staleMarkers.get(marker.id);
+        let label: HTMLElement;
+        if (markerDiv) {
+            staleMarkers.delete(marker.id);
+            label = markerDiv.firstElementChild as HTMLElement;
+        } else {
+            markerDiv = document.createElement('div');
+            markerDiv.setAttribute('data-loop-marker', marker.id);
+            markerDiv.style.position = 'absolute';
+            markerDiv.style.top = '0';
+            markerDiv.style.bottom = '0';
+            markerDiv.style.zIndex = '10';
+            markerDiv.style.cursor = 'pointer';
+
+            // Marker number (and label)
+            label = document.createElement('div');
+            label.style.position = 'absolute';
+            label.style.top = '3px';
+            label.style.left = '4px';
+            label.style.fontSize = '10px';
+            label.style.fontWeight = 'bold';
+            label.style.whiteSpace = 'nowrap';
+            label.style.maxWidth = '120px';
+            label.style.overflow = 'hidden';
+            label.style.textOverflow = 'ellipsis';
+            label.style.padding = '2px 4px';
+            markerDiv.appendChild(label);
+            wrapper.appendChild(markerDiv);
+        }
 
-        const markerDiv = document.createElement('div');
-        markerDiv.setAttribute('data-loop-marker', marker.id);
-        markerDiv.style.position = 'absolute';
         markerDiv.style.left = `${leftPercent}%`;
-        markerDiv.style.top = '0';
-        markerDiv.style.bottom = '0';
-        markerDiv.style.width = '2px';
-        markerDiv.style.backgroundColor = isInActiveLoop ?  primaryColor : greyColor;
-        markerDiv.style.zIndex = '10';
         markerDiv.style.pointerEvents = loopState.editMode ? 'none' : 'auto';
-        markerDiv.style.cursor = 'pointer';
-
-        // Add marker number
-        const label = document.createElement('div');
-        label.textContent = `${index + 1}`;
-        label.style.position = 'absolute';
-        label.style.top = '3px';
-        label.style.left = '4px';
-        label.style.fontSize = '10px';
-        label.style.fontWeight = 'bold';
-        label.style.color = isInActiveLoop ? theme.palette.primary.contrastText : greyColor;
-        label.style.backgroundColor = isInActiveLoop ? primaryColor : theme.palette.background.paper
-        label.style.padding = '2px 4px';
-        label.style.borderRadius = '3px';
-        markerDiv.appendChild(label);
-
-        wrapper.appendChild(markerDiv);
+        // Sections: thick line, notes: dashed line, cues: thin line
+        markerDiv.style.width = kind === 'section' ? '3px' : '2px';
+        markerDiv.style.borderLeft = kind === 'note' ? `2px dashed ${lineColor}` : 'none';
+        markerDiv.style.backgroundColor = kind === 'note' ? 'transparent' : lineColor;
+
+        label.textContent = marker.label ? `${index + 1} · ${marker.label}` : `${index + 1}`;
+        label.style.fontStyle = kind === 'note' ? 'italic' : 'normal';
+        if (isInActiveLoop) {
+            label.style.color = theme.palette.primary.contrastText;
+            label.style.backgroundColor = primaryColor;
+        } else if (kind === 'section') {
+            // Section names read like flags on the timeline
+            label.style.color = theme.palette.getContrastText(markerColor);
+            label.style.backgroundColor = markerColor;
+        } else {
+            label.style.color = markerColor;
+            label.style.backgroundColor = theme.palette.background.paper;
+        }
+        label.style.borderRadius = kind === 'section' ? '0 3px 3px 0' : '3px';
     });
+
+    // Deleted markers/loops
+    staleZones.forEach(el => el.remove());
+    staleMarkers.forEach(el => el.remove());
 };
 
 // Setup edit mode interactions in Shadow DOM
@@ -141,7 +189,8 @@ export const setupEditModeInteractions = (
     playbackState: PlaybackState,
     isDraggingRef: React.MutableRefObject<boolean>,
     theme: Theme,
-    trackDuration: number
+    trackDuration: number,
+    timeOffset = 0
 ) => {
     // Remove existing interaction layer
     wrapper.querySelectorAll('[data-edit-layer]').forEach(el => el.remove());
@@ -198,8 +247,8 @@ export const setupEditModeInteractions = (
         // Position relative to scroll container + scroll offset
         const relativeX = (e.clientX - scrollRect.left) + scrollLeft;
         const percent = (relativeX / totalWidth) * 100;
-        // Use THIS track's duration to calculate the time from click position
-        const calculatedTime = (percent / 100) * trackDuration;
+        // Use THIS track's duration to calculate the time from click position, back on the timeline
+        const calculatedTime = Math.max(0, (percent / 100) * trackDuration + timeOffset);
         
         logger.debug('🔍 getTimeFromEvent:', {
             clientX: e.clientX,
@@ -265,7 +314,7 @@ export const setupEditModeInteractions = (
             const markerElement = wrapper.querySelector(`[data-loop-marker="${draggedMarkerId}"]`) as HTMLElement;
             if (markerElement) {
                 // Render position based on THIS track's duration
-                const leftPercent = (currentTime / trackDuration) * 100;
+                const leftPercent = ((currentTime - timeOffset) / trackDuration) * 100;
                 markerElement.style.left = `${leftPercent}%`;
             }
             return;
@@ -300,7 +349,7 @@ export const setupEditModeInteractions = (
         const start = Math.min(dragStartTime, currentTime);
         const end = Math.max(dragStartTime, currentTime);
         // Render preview position based on THIS track's duration
-        const startPercent = (start / trackDuration) * 100;
+        const startPercent = ((start - timeOffset) / trackDuration) * 100;
         const widthPercent = ((end - start) / trackDuration) * 100;
 
         previewDiv.style.left = `${startPercent}%`;
@@ -321,7 +370,7 @@ export const setupEditModeInteractions = (
         // If we were dragging a marker, update the store NOW
         if (draggedMarkerId) {
             logger.debug(`✅ Marker ${draggedMarkerId} moved to ${endTime.toFixed(2)}s`);
-            useAudioStore.getState().updateMarkerTime(draggedMarkerId, endTime);
+            useAudioStore.getState().updateMarkerTime(draggedMarkerId, endTime, { snap: !e.shiftKey });
             draggedMarkerId = null;
             isDragging = false;
             dragStartTime = null;
@@ -334,16 +383,14 @@ export const setupEditModeInteractions = (
         // Create marker or loop
         if (distance < 0.5) {
             logger.debug('📍 Creating single marker');
-            useAudioStore.getState().addMarker(dragStartTime);
+            useAudioStore.getState().addMarker(dragStartTime, undefined, { snap: !e.shiftKey });
         } else {
             logger.debug('🔁 Creating loop');
             const start = Math.min(dragStartTime, endTime);
             const end = Math.max(dragStartTime, endTime);
 
-            const startMarkerId = useAudioStore.getState().addMarker(start);
-            const endMarkerId = useAudioStore.getState().addMarker(end);
-
-            useAudioStore.getState().createLoop(startMarkerId, endMarkerId);
+            // Shift held: place exactly where the pointer is
+            useAudioStore.getState().addLoop(start, end, { snap: !e.shiftKey });
         }
 
         isDragging = false;
@@ -0,0 +1,150 @@
+/**
+ * Keyboard shortcut registry
+ * Named actions with their default key, user overrides and key matching
+ *
+ * A binding is a key code with its modifiers, e.g. "Space", "Ctrl+KeyZ", "Alt+Shift+Digit2".
+ * Letters follow the character they type, so "KeyZ" is the key labelled Z on AZERTY too;
+ * other keys are matched by position (KeyboardEvent.code). Ctrl also matches Cmd on macOS.
+ */
+
+import type { ShortcutOverrides } from '../types/audio';
+
+export type ShortcutCommand =
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'jumpToStart'
+  | 'addMarker'
+  | 'previousMarker'
+  | 'nextMarker'
+  | 'quickLoop'
+  | 'toggleLoop'
+  | 'muteTrack'
+  | 'soloTrack'
+  | 'speedUp'
+  | 'speedDown'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'undo'
+  | 'redo';
+
+export type ShortcutGroup = 'transport' | 'markers' | 'loops' | 'mixer' | 'speed' | 'view' | 'edit';
+
+export interface ShortcutAction {
+  id: string; // command, followed by its number for per-loop/per-track actions ("toggleLoop3")
+  command: ShortcutCommand;
+  index?: number; // 1-based loop or track number
+  group: ShortcutGroup;
+  defaultBinding: string | null;
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['transport', 'markers', 'loops', 'mixer', 'speed', 'view', 'edit'];
+
+const NUMBERED_LOOPS = 9;
+const NUMBERED_TRACKS = 8; // Same as the track limit
+
+const numbered = (
+  command: ShortcutCommand,
+  group: ShortcutGroup,
+  count: number,
+  defaultBinding: (n: number) => string
+): ShortcutAction[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${command}${i + 1}`,
+    command,
+    index: i + 1,
+    group,
+    defaultBinding: defaultBinding(i + 1),
+  }));
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'playPause', command: 'playPause', group: 'transport', defaultBinding: 'Space' },
+  { id: 'seekBackward', command: 'seekBackward', group: 'transport', defaultBinding: 'ArrowLeft' },
+  { id: 'seekForward', command: 'seekForward', group: 'transport', defaultBinding: 'ArrowRight' },
+  { id: 'jumpToStart', command: 'jumpToStart', group: 'transport', defaultBinding: 'Ctrl+ArrowLeft' },
+  { id: 'addMarker', command: 'addMarker', group: 'markers', defaultBinding: 'KeyM' },
+  { id: 'previousMarker', command: 'previousMarker', group: 'markers', defaultBinding: 'Comma' },
+  { id: 'nextMarker', command: 'nextMarker', group: 'markers', defaultBinding: 'Period' },
+  { id: 'quickLoop', command: 'quickLoop', group: 'loops', defaultBinding: 'KeyL' },
+  ...numbered('toggleLoop', 'loops', NUMBERED_LOOPS, n => `Digit${n}`),
+  ...numbered('muteTrack', 'mixer', NUMBERED_TRACKS, n => `Alt+Digit${n}`),
+  ...numbered('soloTrack', 'mixer', NUMBERED_TRACKS, n => `Alt+Shift+Digit${n}`),
+  { id: 'speedUp', command: 'speedUp', group: 'speed', defaultBinding: 'Shift+ArrowUp' },
+  { id: 'speedDown', command: 'speedDown', group: 'speed', defaultBinding: 'Shift+ArrowDown' },
+  { id: 'zoomIn', command: 'zoomIn', group: 'view', defaultBinding: 'Equal' },
+  { id: 'zoomOut', command: 'zoomOut', group: 'view', defaultBinding: 'Minus' },
+  { id: 'undo', command: 'undo', group: 'edit', defaultBinding: 'Ctrl+KeyZ' },
+  { id: 'redo', command: 'redo', group: 'edit', defaultBinding: 'Ctrl+Shift+KeyZ' },
+];
+
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'MetaLeft', 'MetaRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight'];
+
+// Code of the letter a key types on the user's layout, else its physical code
+const keyCode = (e: KeyboardEvent) => (/^[a-z]$/i.test(e.key) ? `Key${e.key.toUpperCase()}` : e.code);
+
+/**
+ * Binding of a key press, null for a modifier pressed alone
+ */
+export const eventToBinding = (e: KeyboardEvent): string | null => {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(keyCode(e));
+  return parts.join('+');
+};
+
+/**
+ * Effective binding of every action (defaults with the user's changes)
+ */
+export const resolveShortcuts = (overrides: ShortcutOverrides): Record<string, string | null> =>
+  Object.fromEntries(
+    SHORTCUT_ACTIONS.map(action => [
+      action.id,
+      action.id in overrides ? overrides[action.id] : action.defaultBinding,
+    ])
+  );
+
+/**
+ * Action bound to a key, for dispatching key presses
+ */
+export const findShortcutAction = (bindings: Record<string, string | null>, binding: string) =>
+  SHORTCUT_ACTIONS.find(action => bindings[action.id] === binding);
+
+/**
+ * Other action already using a binding, if any
+ */
+export const findShortcutConflict = (
+  bindings: Record<string, string | null>,
+  actionId: string,
+  binding: string
+) => SHORTCUT_ACTIONS.find(action => action.id !== actionId && bindings[action.id] === binding) ?? null;
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Semicolon: ';',
+  Quote: "'",
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+};
+
+/**
+ * Readable form of a binding ("Ctrl + Shift + Z")
+ */
+export const formatBinding = (binding: string) =>
+  binding
+    .split('+')
+    .map(part => KEY_NAMES[part] ?? part.replace(/^Key|^Digit/, ''))
+    .join(' + ');
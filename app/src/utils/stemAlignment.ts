@@ -0,0 +1,151 @@
+/**
+ * Stem alignment by cross-correlation
+ * Both signals are downsampled mono; the lag maximising their FFT cross-correlation
+ * is the time shift that lines the track up with the reference.
+ */
+
+export const ANALYSIS_SAMPLE_RATE = 4000; // 0.25ms resolution, enough for ms offsets
+export const MAX_ANALYSIS_TIME = 60; // seconds of each signal compared
+export const MAX_SHIFT = 20; // seconds, largest offset searched in either direction
+
+export interface AlignmentEstimate {
+  offset: number; // Seconds to add to the track's position (positive = track must start later)
+  confidence: number; // 0-1, normalized correlation at the best lag
+}
+
+/**
+ * Mono mix of a decoded buffer, limited to the analysed duration
+ * Runs on the main thread (AudioBuffer can't be sent to a worker)
+ */
+export function toMonoSamples(buffer: AudioBuffer): Float32Array {
+  const length = Math.min(buffer.length, Math.floor(MAX_ANALYSIS_TIME * buffer.sampleRate));
+  const mono = new Float32Array(length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// Box-filter decimation (crude low-pass, fine for correlation)
+function downsample(samples: Float32Array, sampleRate: number): Float32Array {
+  const ratio = sampleRate / ANALYSIS_SAMPLE_RATE;
+  if (ratio <= 1) return samples;
+
+  const length = Math.floor(samples.length / ratio);
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    output[i] = sum / (end - start);
+  }
+  return output;
+}
+
+// In-place iterative radix-2 FFT (inverse when `inverse` is true, unscaled)
+function fft(re: Float64Array, im: Float64Array, inverse: boolean) {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+function energy(samples: Float32Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = Math.max(0, start); i < Math.min(samples.length, end); i++) {
+    sum += samples[i] * samples[i];
+  }
+  return sum;
+}
+
+/**
+ * Offset that best aligns `track` with `reference` (both mono, same sample rate)
+ * Returns null when either signal is silent
+ */
+export function estimateAlignment(
+  reference: Float32Array,
+  track: Float32Array,
+  sampleRate: number
+): AlignmentEstimate | null {
+  const ref = downsample(reference, sampleRate);
+  const sig = downsample(track, sampleRate);
+  if (ref.length === 0 || sig.length === 0) return null;
+
+  // Zero-padded so the circular correlation covers every lag without wrap-around
+  let size = 1;
+  while (size < ref.length + sig.length) size <<= 1;
+
+  const refRe = new Float64Array(size);
+  const refIm = new Float64Array(size);
+  const sigRe = new Float64Array(size);
+  const sigIm = new Float64Array(size);
+  refRe.set(ref);
+  sigRe.set(sig);
+
+  fft(refRe, refIm, false);
+  fft(sigRe, sigIm, false);
+
+  // Reference spectrum × conjugate of the track spectrum
+  for (let i = 0; i < size; i++) {
+    const re = refRe[i] * sigRe[i] + refIm[i] * sigIm[i];
+    const im = refIm[i] * sigRe[i] - refRe[i] * sigIm[i];
+    refRe[i] = re;
+    refIm[i] = im;
+  }
+  fft(refRe, refIm, true);
+
+  // correlation[lag] = Σ ref[n + lag] · sig[n], negative lags are stored at the end
+  const maxLag = Math.min(Math.floor(MAX_SHIFT * ANALYSIS_SAMPLE_RATE), size / 2 - 1);
+  let bestLag = 0;
+  let bestValue = -Infinity;
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const value = refRe[lag >= 0 ? lag : size + lag];
+    if (value > bestValue) {
+      bestValue = value;
+      bestLag = lag;
+    }
+  }
+
+  // Normalize over the overlapping part only (so partial overlaps aren't penalised)
+  const refEnergy = energy(ref, bestLag, bestLag + sig.length);
+  const sigEnergy = energy(sig, -bestLag, ref.length - bestLag);
+  if (refEnergy === 0 || sigEnergy === 0) return null;
+
+  const confidence = Math.max(0, Math.min(1, bestValue / size / Math.sqrt(refEnergy * sigEnergy)));
+
+  return { offset: bestLag / ANALYSIS_SAMPLE_RATE, confidence };
+}
@@ -0,0 +1,169 @@
+/**
+ * Offline tempo and downbeat estimation
+ * Builds an onset-strength envelope (rectified compressed-energy flux), finds the beat period
+ * by autocorrelation, then the beat phase and the bar phase by comb-filter energy.
+ */
+
+import {logger} from './logger';
+
+// Analysis settings
+const HOP_TIME = 0.01; // 10ms envelope resolution
+const MAX_ANALYSIS_TIME = 120; // seconds analysed (enough for a stable estimate)
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120; // Centre of the log-tempo prior (resolves octave errors)
+const PRIOR_WIDTH = 1; // Octaves (standard deviation)
+const REFINE_BEATS = 8; // Period refined over this many beats
+const COMPRESSION = 1000; // Log compression of the energy (keeps accents, ignores silence)
+
+export interface TempoEstimate {
+  bpm: number;
+  downbeatOffset: number; // Seconds, first downbeat at or after 0
+  confidence: number; // 0-1
+}
+
+// Mono mix downsampled to one energy value per hop
+function computeEnergyEnvelope(buffer: AudioBuffer, hopSize: number): Float32Array {
+  const length = Math.min(buffer.length, Math.floor(MAX_ANALYSIS_TIME * buffer.sampleRate));
+  const frameCount = Math.floor(length / hopSize);
+  const energy = new Float32Array(frameCount);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frameCount; frame++) {
+      let sum = 0;
+      const start = frame * hopSize;
+      for (let i = start; i < start + hopSize; i++) {
+        sum += data[i] * data[i];
+      }
+      energy[frame] += sum / hopSize;
+    }
+  }
+
+  return energy;
+}
+
+// Half-wave rectified derivative of log-compressed energy, mean removed
+function computeOnsetEnvelope(energy: Float32Array): Float32Array {
+  const onset = new Float32Array(energy.length);
+  const peak = energy.reduce((max, value) => Math.max(max, value), 0) || 1;
+  const compress = (value: number) => Math.log1p(COMPRESSION * value / peak);
+
+  let previous = compress(energy[0]);
+  let mean = 0;
+
+  for (let i = 1; i < energy.length; i++) {
+    const current = compress(energy[i]);
+    onset[i] = Math.max(0, current - previous);
+    previous = current;
+    mean += onset[i];
+  }
+
+  mean /= Math.max(1, energy.length);
+  for (let i = 0; i < onset.length; i++) {
+    onset[i] = Math.max(0, onset[i] - mean);
+  }
+
+  return onset;
+}
+
+function autocorrelation(signal: Float32Array, lag: number): number {
+  let sum = 0;
+  for (let i = lag; i < signal.length; i++) {
+    sum += signal[i] * signal[i - lag];
+  }
+  return sum / (signal.length - lag);
+}
+
+// Strongest onset within one frame of a (fractional) position
+function onsetAround(onset: Float32Array, position: number): number {
+  const index = Math.round(position);
+  return Math.max(onset[index - 1] || 0, onset[index] || 0, onset[index + 1] || 0);
+}
+
+/**
+ * Estimate tempo (BPM) and first downbeat of a decoded track
+ * Returns null when the signal has no usable rhythmic content
+ */
+export function detectTempo(buffer: AudioBuffer, beatsPerBar = 4): TempoEstimate | null {
+  const hopSize = Math.max(1, Math.round(HOP_TIME * buffer.sampleRate));
+  const frameRate = buffer.sampleRate / hopSize; // Exact, hop is rounded to whole samples
+  const onset = computeOnsetEnvelope(computeEnergyEnvelope(buffer, hopSize));
+
+  const minLag = Math.floor((60 / MAX_BPM) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * frameRate);
+  if (onset.length < maxLag * 4) {
+    logger.debug('🥁 Tempo detection skipped: track too short');
+    return null;
+  }
+
+  const zeroLag = autocorrelation(onset, 0);
+  if (zeroLag <= 0) return null;
+
+  // 1. Beat period: autocorrelation peak weighted by the tempo prior
+  const correlations = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    correlations[lag] = autocorrelation(onset, lag);
+  }
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / PRIOR_WIDTH;
+    const score = correlations[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Refine on a multiple of the period (8 beats): sub-frame precision without interpolation bias
+  let refinedLag = bestLag * REFINE_BEATS;
+  let refinedScore = -Infinity;
+  for (let lag = (bestLag - 1) * REFINE_BEATS; lag <= (bestLag + 1) * REFINE_BEATS; lag++) {
+    if (lag >= onset.length) break;
+    const score = autocorrelation(onset, lag);
+    if (score > refinedScore) {
+      refinedScore = score;
+      refinedLag = lag;
+    }
+  }
+  const period = refinedLag / REFINE_BEATS; // frames per beat
+
+  // 2. Beat phase: offset whose beat train collects the most onset energy
+  const phaseScores = new Float32Array(bestLag);
+  for (let phase = 0; phase < bestLag; phase++) {
+    let sum = 0;
+    for (let position = phase; position < onset.length; position += period) {
+      sum += onsetAround(onset, position);
+    }
+    phaseScores[phase] = sum;
+  }
+  let beatPhase = 0;
+  for (let phase = 1; phase < bestLag; phase++) {
+    if (phaseScores[phase] > phaseScores[beatPhase]) beatPhase = phase;
+  }
+
+  // 3. Bar phase: which beat of the bar carries the strongest accents
+  let barBeat = 0;
+  let barBestScore = -Infinity;
+  for (let beat = 0; beat < beatsPerBar; beat++) {
+    let sum = 0;
+    for (let position = beatPhase + beat * period; position < onset.length; position += period * beatsPerBar) {
+      sum += onsetAround(onset, position);
+    }
+    if (sum > barBestScore) {
+      barBestScore = sum;
+      barBeat = beat;
+    }
+  }
+
+  const bpm = Math.round(((60 * frameRate) / period) * 10) / 10;
+  const downbeatOffset = ((beatPhase + barBeat * period) / frameRate);
+  const confidence = Math.max(0, Math.min(1, correlations[bestLag] / zeroLag));
+
+  logger.debug(`🥁 Tempo detected: ${bpm} BPM, downbeat @ ${downbeatOffset.toFixed(3)}s (confidence ${(confidence * 100).toFixed(0)}%)`);
+
+  return { bpm, downbeatOffset, confidence };
+}
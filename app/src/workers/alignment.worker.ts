@@ -0,0 +1,26 @@
+/**
+ * Stem alignment worker
+ * Cross-correlates each track against the reference off the main thread.
+ */
+
+import { estimateAlignment } from '../utils/stemAlignment';
+import type { AlignmentRequest, AlignmentResponse } from '../hooks/audioStore/alignment';
+
+const post = (message: AlignmentResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AlignmentRequest>) => {
+  const { sampleRate, reference, tracks } = event.data;
+
+  tracks.forEach((track, index) => {
+    try {
+      const estimate = estimateAlignment(reference, track.samples, sampleRate);
+      post({ type: 'result', trackId: track.id, estimate });
+    } catch (err) {
+      console.error(`Alignment failed for track ${track.id}:`, err);
+      post({ type: 'result', trackId: track.id, estimate: null });
+    }
+    post({ type: 'progress', progress: (index + 1) / tracks.length });
+  });
+
+  post({ type: 'done' });
+};